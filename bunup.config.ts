@@ -1,11 +1,13 @@
 import { defineConfig } from 'bunup';
+import { version } from './package.json';
 
 export default defineConfig({
-  entry: ['src/index.ts'],
+  entry: ['src/index.ts', 'src/fixtures.ts'],
   format: ['esm', 'cjs'],
   dts: true,
   clean: true,
   minify: false,
   sourcemap: true,
+  define: { __PACKAGE_VERSION__: JSON.stringify(version) },
   external: ['axios', '@playwright/test', 'playwright', 'playwright-core', '@better-fetch/fetch'],
 });
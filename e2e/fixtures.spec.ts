@@ -0,0 +1,42 @@
+import { test, expect } from '../src/fixtures';
+
+/**
+ * Integration tests for the bundled fixtures, using the baseURL
+ * from playwright.config.ts (https://jsonplaceholder.typicode.com)
+ */
+
+test.describe('fixtures', () => {
+  test('api fixture uses the configured baseURL', async ({ api }) => {
+    const response = await api.get('/posts/1');
+
+    expect(response.status).toBe(200);
+    expect(response.data).toHaveProperty('id', 1);
+  });
+
+  test('apiFetch fixture resolves relative URLs', async ({ apiFetch }) => {
+    const response = await apiFetch('/posts/1');
+
+    expect(response.ok).toBe(true);
+    expect(await response.json()).toHaveProperty('id', 1);
+  });
+
+  test('worker fixtures share one request context', async ({ workerApi, workerApiFetch }) => {
+    const [axiosResponse, fetchResponse] = await Promise.all([
+      workerApi.get('/posts/1'),
+      workerApiFetch('/posts/2'),
+    ]);
+
+    expect(axiosResponse.data).toHaveProperty('id', 1);
+    expect(await fetchResponse.json()).toHaveProperty('id', 2);
+  });
+
+  test.describe('with adapter options', () => {
+    test.use({ axiosAdapter: { maxRedirects: 0 } });
+
+    test('api fixture receives axiosAdapter options', async ({ api }) => {
+      const response = await api.get('/posts/1');
+
+      expect(response.status).toBe(200);
+    });
+  });
+});
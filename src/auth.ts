@@ -0,0 +1,259 @@
+import type { APIRequestContext } from '@playwright/test';
+import type { AuthProvider, PlaywrightRequest } from './types';
+
+/**
+ * Options for `createTokenRefreshAuth`
+ */
+export interface TokenRefreshAuthOptions {
+  /**
+   * Token to start with; fetched with `refresh` on first use when omitted
+   */
+  token?: string;
+
+  /**
+   * Obtain a new access token
+   */
+  refresh: (requestContext: APIRequestContext) => string | Promise<string>;
+}
+
+/**
+ * Options for `createClientCredentialsAuth`
+ */
+export interface ClientCredentialsAuthOptions {
+  tokenUrl: string;
+  clientId: string;
+  clientSecret: string;
+  scope?: string | string[];
+  audience?: string;
+
+  /**
+   * Send the client credentials as a Basic Authorization header (default)
+   * or in the form body
+   */
+  clientAuthentication?: 'basic' | 'body';
+
+  /**
+   * Renew tokens this many seconds before they expire (default: 30)
+   */
+  expirySkew?: number;
+}
+
+/**
+ * Access token response of an OAuth2 token endpoint (RFC 6749 section 5.1)
+ */
+interface TokenResponse {
+  access_token: string;
+  token_type?: string;
+  expires_in?: number;
+}
+
+/**
+ * Refreshes in flight, so concurrent 401s share one
+ */
+const pendingRefreshes = new WeakMap<AuthProvider, Promise<void>>();
+
+/**
+ * Number of refreshes each provider has completed
+ */
+const completedRefreshes = new WeakMap<AuthProvider, number>();
+
+function bearer(token: string): Record<string, string> {
+  return { Authorization: `Bearer ${token}` };
+}
+
+/**
+ * Share one in-flight call between concurrent callers
+ *
+ * The call that starts the task passes its argument, so each run uses the
+ * caller's current request context rather than the first one seen.
+ */
+function singleFlight<A, T>(task: (arg: A) => Promise<T>): (arg: A) => Promise<T> {
+  let pending: Promise<T> | undefined;
+
+  return (arg) => {
+    pending ??= task(arg).finally(() => {
+      pending = undefined;
+    });
+    return pending;
+  };
+}
+
+/**
+ * Whether the request carries its own Authorization header
+ */
+export function hasAuthorization(request: PlaywrightRequest): boolean {
+  return Object.keys(request.options.headers ?? {}).some(
+    (name) => name.toLowerCase() === 'authorization'
+  );
+}
+
+/**
+ * Add the provider's headers to a request without its own Authorization header
+ */
+export async function withAuth(
+  requestContext: APIRequestContext,
+  request: PlaywrightRequest,
+  provider: AuthProvider
+): Promise<PlaywrightRequest> {
+  if (hasAuthorization(request)) return request;
+
+  const headers = await provider.getHeaders(requestContext);
+  return {
+    url: request.url,
+    options: { ...request.options, headers: { ...request.options.headers, ...headers } },
+  };
+}
+
+/**
+ * Whether the request was sent with the provider's current headers
+ */
+function sentWith(request: PlaywrightRequest, headers: Record<string, string>): boolean {
+  const sent = Object.entries(request.options.headers ?? {});
+  return Object.entries(headers).every(([name, value]) =>
+    sent.some(([key, sentValue]) => key.toLowerCase() === name.toLowerCase() && sentValue === value)
+  );
+}
+
+/**
+ * Run the provider's refresh for a request that got a 401, joining one already in flight
+ *
+ * A 401 for credentials that have been replaced since the request was sent,
+ * by a refresh that already finished, only needs a resend.
+ */
+export async function refreshAuth(
+  requestContext: APIRequestContext,
+  provider: AuthProvider,
+  rejected: PlaywrightRequest
+): Promise<void> {
+  let pending = pendingRefreshes.get(provider);
+  if (pending) return pending;
+
+  const countRefreshes = () => completedRefreshes.get(provider) ?? 0;
+  const completed = countRefreshes();
+  const current = await provider.getHeaders(requestContext);
+  if (!sentWith(rejected, current) || countRefreshes() !== completed) return;
+
+  pending = pendingRefreshes.get(provider);
+  if (!pending) {
+    pending = Promise.resolve(provider.refresh?.(requestContext)).finally(() => {
+      pendingRefreshes.delete(provider);
+      completedRefreshes.set(provider, countRefreshes() + 1);
+    });
+    pendingRefreshes.set(provider, pending);
+  }
+
+  return pending;
+}
+
+/**
+ * Send a static or computed bearer token
+ *
+ * @example
+ * ```typescript
+ * createPlaywrightAdapter(request, { auth: createBearerAuth(process.env.API_TOKEN!) });
+ * ```
+ */
+export function createBearerAuth(token: string | (() => string | Promise<string>)): AuthProvider {
+  return {
+    async getHeaders() {
+      return bearer(typeof token === 'function' ? await token() : token);
+    },
+  };
+}
+
+/**
+ * Send a bearer token and fetch a new one when a request gets a 401
+ *
+ * @example
+ * ```typescript
+ * const auth = createTokenRefreshAuth({
+ *   refresh: async (request) => (await (await request.post('/auth/token')).json()).token,
+ * });
+ * ```
+ */
+export function createTokenRefreshAuth(options: TokenRefreshAuthOptions): AuthProvider {
+  let token = options.token;
+  const refresh = singleFlight(async (requestContext: APIRequestContext) => {
+    token = await options.refresh(requestContext);
+    return token;
+  });
+
+  return {
+    async getHeaders(requestContext) {
+      return bearer(token ?? (await refresh(requestContext)));
+    },
+    async refresh(requestContext) {
+      await refresh(requestContext);
+    },
+  };
+}
+
+/**
+ * Fetch and cache tokens with the OAuth2 client credentials grant
+ *
+ * Token requests go through the same request context, so they show in traces.
+ *
+ * @example
+ * ```typescript
+ * const auth = createClientCredentialsAuth({
+ *   tokenUrl: 'https://auth.example.com/oauth/token',
+ *   clientId: 'tests',
+ *   clientSecret: process.env.CLIENT_SECRET!,
+ *   scope: ['users:read'],
+ * });
+ * ```
+ */
+export function createClientCredentialsAuth(options: ClientCredentialsAuthOptions): AuthProvider {
+  const { tokenUrl, clientId, clientSecret, audience, expirySkew = 30 } = options;
+  const clientAuthentication = options.clientAuthentication ?? 'basic';
+  const scope = Array.isArray(options.scope) ? options.scope.join(' ') : options.scope;
+
+  let current: { header: Record<string, string>; expiresAt: number } | undefined;
+
+  const fetchToken = async (requestContext: APIRequestContext): Promise<Record<string, string>> => {
+    const form: Record<string, string> = { grant_type: 'client_credentials' };
+    if (scope) form.scope = scope;
+    if (audience) form.audience = audience;
+
+    const headers: Record<string, string> = { Accept: 'application/json' };
+    if (clientAuthentication === 'basic') {
+      const credentials = `${encodeURIComponent(clientId)}:${encodeURIComponent(clientSecret)}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    } else {
+      form.client_id = clientId;
+      form.client_secret = clientSecret;
+    }
+
+    const response = await requestContext.fetch(tokenUrl, { method: 'POST', headers, form });
+    if (!response.ok()) {
+      const body = await response.text();
+      throw new Error(`Token request to ${tokenUrl} failed with status ${response.status()}: ${body}`);
+    }
+
+    const body = (await response.json()) as TokenResponse;
+    const tokenType =
+      !body.token_type || /^bearer$/i.test(body.token_type) ? 'Bearer' : body.token_type;
+    const header = { Authorization: `${tokenType} ${body.access_token}` };
+    current = {
+      header,
+      expiresAt:
+        body.expires_in === undefined
+          ? Infinity
+          : Date.now() + (body.expires_in - expirySkew) * 1000,
+    };
+    return header;
+  };
+
+  const getToken = singleFlight(fetchToken);
+
+  return {
+    async getHeaders(requestContext) {
+      if (current && Date.now() < current.expiresAt) return current.header;
+      return getToken(requestContext);
+    },
+    async refresh(requestContext) {
+      current = undefined;
+      await getToken(requestContext);
+    },
+  };
+}
@@ -1,9 +1,22 @@
 import { AxiosError } from 'axios';
 import type { AxiosAdapter, InternalAxiosRequestConfig, AxiosResponse } from 'axios';
 import type { APIRequestContext } from '@playwright/test';
-import type { PlaywrightAdapterOptions } from './types';
-import { buildUrl, transformRequest } from './utils/request';
+import type { PlaywrightAdapterOptions, PlaywrightRequest } from './types';
+import { readResponseProblem, setResponseProblem } from './problem-details';
+import { createContextCookies } from './cookie-jar';
+import { dispatchRequest } from './utils/dispatch';
+import { settle, toAxiosError } from './utils/errors';
+import { raceCancellation, createCanceledError, subscribeAxiosCancel } from './utils/cancel';
+import {
+  emitProgressComplete,
+  emitProgressStart,
+  getRequestBodySize,
+  getResponseContentLength,
+} from './utils/progress';
+import { attachExchange } from './utils/report';
+import { buildUrl, describeRequest, transformRequest } from './utils/request';
 import { transformResponse } from './utils/response';
+import { applyXSRFToken } from './utils/xsrf';
 
 /**
  * Create a Playwright adapter for axios
@@ -34,55 +47,105 @@ export function createPlaywrightAdapter(
     config: InternalAxiosRequestConfig
   ): Promise<AxiosResponse<T>> {
     const url = buildUrl(config);
-    const requestOptions = transformRequest(config, options);
+    const requestOptions = await transformRequest(config, options);
 
-    // Handle abort signal
+    // Handle requests canceled before dispatch
+    config.cancelToken?.throwIfRequested();
     if (config.signal?.aborted) {
-      throw new AxiosError('Request aborted', AxiosError.ERR_CANCELED, config);
+      throw createCanceledError(config);
     }
 
-    try {
-      const response = await requestContext.fetch(url, {
+    const hasBody =
+      requestOptions.data !== undefined ||
+      requestOptions.form !== undefined ||
+      requestOptions.multipart !== undefined;
+    const uploadTotal = hasBody ? getRequestBodySize(requestOptions) : undefined;
+
+    const request: PlaywrightRequest = {
+      url,
+      options: {
         method: requestOptions.method,
         headers: requestOptions.headers,
         data: requestOptions.data,
         form: requestOptions.form,
         multipart: requestOptions.multipart,
-        params: requestOptions.params,
         timeout: requestOptions.timeout,
         failOnStatusCode: requestOptions.failOnStatusCode ?? false,
         ignoreHTTPSErrors: requestOptions.ignoreHTTPSErrors,
         maxRedirects: requestOptions.maxRedirects,
         maxRetries: requestOptions.maxRetries,
+      },
+    };
+    const startedAt = Date.now();
+    let attached = false;
+
+    try {
+      const contextCookies = createContextCookies(requestContext);
+      await applyXSRFToken(contextCookies, request, config, options?.cookieJar);
+
+      if (hasBody) {
+        emitProgressStart(config.onUploadProgress, 'upload', uploadTotal);
+      }
+
+      const subscribeCancel = subscribeAxiosCancel(config);
+      const inFlight = dispatchRequest(
+        requestContext,
+        request,
+        options,
+        subscribeCancel,
+        contextCookies
+      );
+
+      // Reject as soon as the request is canceled; a late response is discarded
+      const response = await raceCancellation(inFlight, subscribeCancel, (late) => {
+        void late.dispose().catch(() => undefined);
       });
 
-      const axiosResponse = await transformResponse<T>(response, config);
-
-      // Validate status if configured
-      if (config.validateStatus && !config.validateStatus(axiosResponse.status)) {
-        throw new AxiosError(
-          `Request failed with status code ${axiosResponse.status}`,
-          AxiosError.ERR_BAD_REQUEST,
-          config,
-          response,
-          axiosResponse
-        );
+      if (hasBody) {
+        emitProgressComplete(config.onUploadProgress, 'upload', uploadTotal ?? 0, uploadTotal);
       }
 
-      return axiosResponse;
+      if (config.onDownloadProgress) {
+        const downloadTotal = getResponseContentLength(response);
+        emitProgressStart(config.onDownloadProgress, 'download', downloadTotal);
+        const { length } = await response.body();
+        emitProgressComplete(config.onDownloadProgress, 'download', length, downloadTotal);
+      }
+
+      const axiosResponse = await transformResponse<T>(response, config, describeRequest(request));
+
+      attached = true;
+      await attachExchange(options, request, startedAt, {
+        response: {
+          status: axiosResponse.status,
+          statusText: axiosResponse.statusText,
+          headers: response.headers(),
+          body: axiosResponse.data,
+        },
+      });
+
+      const contentType = response.headers()['content-type'];
+      // Parsed from the raw body, as `data` may be a stream or buffer
+      const problem = options?.problemDetails
+        ? readResponseProblem(axiosResponse.status, contentType, await response.body())
+        : undefined;
+      if (problem) {
+        setResponseProblem(axiosResponse, problem);
+      }
+
+      return settle(axiosResponse, problem);
     } catch (error) {
+      if (!attached) {
+        await attachExchange(options, request, startedAt, { error });
+      }
+
       if (error instanceof AxiosError) {
+        error.request ??= describeRequest(request);
         throw error;
       }
 
       // Convert Playwright errors to AxiosError
-      const axiosError = new AxiosError(
-        (error as Error).message || 'Request failed',
-        AxiosError.ERR_NETWORK,
-        config
-      );
-      axiosError.cause = error;
-      throw axiosError;
+      throw toAxiosError(error, config, describeRequest(request));
     }
   };
 }
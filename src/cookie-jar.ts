@@ -0,0 +1,223 @@
+import type { APIRequestContext, APIResponse } from '@playwright/test';
+import type { AxiosResponse } from 'axios';
+import type { CookieJar, PlaywrightCookie, PlaywrightStorageState } from './types';
+
+const SESSION_EXPIRES = -1;
+
+function isExpired(cookie: PlaywrightCookie, now: number): boolean {
+  return cookie.expires !== SESSION_EXPIRES && cookie.expires * 1000 <= now;
+}
+
+function domainMatches(hostname: string, domain: string): boolean {
+  if (!domain.startsWith('.')) return hostname === domain;
+  return hostname === domain.slice(1) || hostname.endsWith(domain);
+}
+
+function pathMatches(pathname: string, path: string): boolean {
+  if (pathname === path || path === '/') return true;
+  return pathname.startsWith(path.endsWith('/') ? path : `${path}/`);
+}
+
+/**
+ * Whether a cookie is sent to `url`, following Playwright's rules
+ */
+export function cookieMatches(
+  cookie: PlaywrightCookie,
+  url: URL,
+  now: number = Date.now()
+): boolean {
+  const secureContext = url.protocol === 'https:' || url.hostname === 'localhost';
+
+  return (
+    !isExpired(cookie, now) &&
+    domainMatches(url.hostname, cookie.domain) &&
+    pathMatches(url.pathname, cookie.path) &&
+    (!cookie.secure || secureContext)
+  );
+}
+
+function isSameCookie(a: PlaywrightCookie, b: PlaywrightCookie): boolean {
+  return a.name === b.name && a.domain === b.domain && a.path === b.path;
+}
+
+/**
+ * Parse a `Set-Cookie` header received from `url`
+ */
+export function parseSetCookie(
+  header: string,
+  url: URL,
+  now: number = Date.now()
+): PlaywrightCookie | undefined {
+  const [pair, ...attributes] = header.split(';');
+  const separator = pair.indexOf('=');
+  if (separator <= 0) return undefined;
+
+  const cookie: PlaywrightCookie = {
+    name: pair.slice(0, separator).trim(),
+    value: pair.slice(separator + 1).trim(),
+    domain: url.hostname,
+    path: url.pathname.slice(0, url.pathname.lastIndexOf('/')) || '/',
+    expires: SESSION_EXPIRES,
+    httpOnly: false,
+    secure: false,
+    sameSite: 'Lax',
+  };
+  let maxAge: number | undefined;
+
+  for (const attribute of attributes) {
+    const [rawName, ...rest] = attribute.split('=');
+    const name = rawName.trim().toLowerCase();
+    const value = rest.join('=').trim();
+
+    if (name === 'domain' && value) {
+      cookie.domain = `.${value.replace(/^\./, '').toLowerCase()}`;
+    } else if (name === 'path' && value.startsWith('/')) {
+      cookie.path = value;
+    } else if (name === 'expires') {
+      const date = Date.parse(value);
+      if (!Number.isNaN(date)) cookie.expires = date / 1000;
+    } else if (name === 'max-age' && /^-?\d+$/.test(value)) {
+      maxAge = Number(value);
+    } else if (name === 'httponly') {
+      cookie.httpOnly = true;
+    } else if (name === 'secure') {
+      cookie.secure = true;
+    } else if (name === 'samesite') {
+      const sameSite = value.toLowerCase();
+      cookie.sameSite = sameSite === 'strict' ? 'Strict' : sameSite === 'none' ? 'None' : 'Lax';
+    }
+  }
+
+  if (maxAge !== undefined) {
+    cookie.expires = maxAge <= 0 ? 0 : Math.floor(now / 1000) + maxAge;
+  }
+  if (!domainMatches(url.hostname, cookie.domain)) return undefined;
+
+  return cookie;
+}
+
+/**
+ * Parse a `Cookie` request header into name/value pairs
+ */
+export function parseCookieHeader(header: string | undefined): Array<[string, string]> {
+  if (!header) return [];
+
+  return header
+    .split(';')
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map((part) => {
+      const separator = part.indexOf('=');
+      return separator === -1
+        ? (['', part] as [string, string])
+        : ([part.slice(0, separator), part.slice(separator + 1)] as [string, string]);
+    });
+}
+
+/**
+ * Cookies of the request context, or none for contexts without `storageState` (e.g. mocks)
+ */
+async function getContextCookies(requestContext: APIRequestContext): Promise<PlaywrightCookie[]> {
+  if (typeof requestContext.storageState !== 'function') return [];
+  return (await requestContext.storageState()).cookies;
+}
+
+/**
+ * Cookies of a request context, shared by the steps of one request
+ */
+export interface ContextCookies {
+  /** Read the cookies, reusing the last read until `reset` */
+  read(): Promise<PlaywrightCookie[]>;
+  /** Drop the last read, e.g. once a response may have changed the cookies */
+  reset(): void;
+}
+
+/**
+ * Read the request context's cookies at most once between resets
+ *
+ * Each read is a `storageState()` round trip, so the XSRF lookup and the
+ * jar's `Cookie` header share one read per request.
+ */
+export function createContextCookies(requestContext: APIRequestContext): ContextCookies {
+  let cookies: Promise<PlaywrightCookie[]> | undefined;
+  return {
+    read: async () => [...(await (cookies ??= getContextCookies(requestContext)))],
+    reset: () => {
+      cookies = undefined;
+    },
+  };
+}
+
+/**
+ * Create a cookie jar, optionally seeded from a Playwright storage state
+ *
+ * @example
+ * ```typescript
+ * const jar = createCookieJar(await page.context().storageState());
+ * const client = axios.create({ adapter: createPlaywrightAdapter(request, { cookieJar: jar }) });
+ * ```
+ */
+export function createCookieJar(storageState?: Partial<PlaywrightStorageState>): CookieJar {
+  let stored: PlaywrightCookie[] = [];
+
+  const jar: CookieJar = {
+    cookies(url) {
+      const now = Date.now();
+      stored = stored.filter((cookie) => !isExpired(cookie, now));
+      if (url === undefined) return stored.map((cookie) => ({ ...cookie }));
+
+      const target = new URL(url);
+      return stored
+        .filter((cookie) => cookieMatches(cookie, target, now))
+        .map((cookie) => ({ ...cookie }));
+    },
+    setCookies(cookies) {
+      const now = Date.now();
+      for (const cookie of cookies) {
+        stored = stored.filter((existing) => !isSameCookie(existing, cookie));
+        if (!isExpired(cookie, now)) stored.push({ ...cookie });
+      }
+    },
+    storageState() {
+      return { cookies: jar.cookies(), origins: [] };
+    },
+    clear() {
+      stored = [];
+    },
+  };
+
+  jar.setCookies(storageState?.cookies ?? []);
+  return jar;
+}
+
+/**
+ * Parse the `Set-Cookie` headers of a response into Playwright cookies
+ *
+ * Accepts a Playwright `APIResponse`, a fetch `Response` or an axios response.
+ */
+export function getSetCookies(response: APIResponse | Response | AxiosResponse): PlaywrightCookie[] {
+  let url: string;
+  let headers: string[];
+
+  if (response instanceof Response) {
+    url = response.url;
+    headers = response.headers.getSetCookie();
+  } else if ('headersArray' in response) {
+    url = response.url();
+    headers = response
+      .headersArray()
+      .filter(({ name }) => name.toLowerCase() === 'set-cookie')
+      .map(({ value }) => value);
+  } else {
+    const { request, headers: axiosHeaders } = response as AxiosResponse;
+    const value: unknown = axiosHeaders['set-cookie'];
+    url = request?.url ?? '';
+    const values = Array.isArray(value) ? value : typeof value === 'string' ? value.split('\n') : [];
+    headers = values.map(String);
+  }
+
+  const target = new URL(url, 'http://localhost');
+  return headers
+    .map((header) => parseSetCookie(header, target))
+    .filter((cookie): cookie is PlaywrightCookie => cookie !== undefined);
+}
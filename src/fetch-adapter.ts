@@ -1,6 +1,23 @@
 import type { APIRequestContext, APIResponse } from '@playwright/test';
-import type { PlaywrightFetchOptions } from './types';
+import type {
+  PlaywrightAdapterHooks,
+  PlaywrightAuthOptions,
+  PlaywrightCookieOptions,
+  PlaywrightDiagnosticsOptions,
+  PlaywrightFetchOptions,
+  PlaywrightProblemDetailsOptions,
+  PlaywrightRecordingOptions,
+  PlaywrightRequest,
+  PlaywrightRetryOptions,
+} from './types';
+import { readResponseProblem, setResponseProblem } from './problem-details';
+import { dispatchRequest } from './utils/dispatch';
+import { raceCancellation, type CancelSubscriber } from './utils/cancel';
+import { attachExchange } from './utils/report';
+import { toForm } from './utils/form';
+import { toMultipart } from './utils/multipart';
 import { getStatusText } from './utils/shared';
+import { bufferToReadableStream } from './utils/stream';
 
 /**
  * Options for the Playwright fetch adapter
@@ -8,96 +25,177 @@ import { getStatusText } from './utils/shared';
 export type PlaywrightFetchAdapterOptions = Pick<
   PlaywrightFetchOptions,
   'ignoreHTTPSErrors' | 'maxRedirects' | 'maxRetries' | 'timeout'
->;
+> &
+  PlaywrightAdapterHooks &
+  PlaywrightAuthOptions &
+  PlaywrightCookieOptions &
+  PlaywrightDiagnosticsOptions &
+  PlaywrightProblemDetailsOptions &
+  PlaywrightRecordingOptions &
+  PlaywrightRetryOptions;
+
+/**
+ * Fetch init options, including `duplex: 'half'` required by Node for stream bodies
+ */
+export type PlaywrightRequestInit = RequestInit & { duplex?: 'half' };
 
 /**
  * Fetch-compatible function type
  */
-export type FetchFunction = (input: string | URL | Request, init?: RequestInit) => Promise<Response>;
+export type FetchFunction = (
+  input: string | URL | Request,
+  init?: PlaywrightRequestInit
+) => Promise<Response>;
 
 /**
- * Transform fetch Headers to Record<string, string>
+ * Transform fetch headers to Record<string, string> the way native `Headers` sees them:
+ * names lowercased, and values of repeated names joined with `, `
  */
 function transformHeaders(headers: RequestInit['headers']): Record<string, string> | undefined {
   if (!headers) return undefined;
 
-  if (headers instanceof Headers) {
-    const result: Record<string, string> = {};
-    headers.forEach((value, key) => {
-      result[key] = value;
-    });
-    return result;
-  }
-
-  if (Array.isArray(headers)) {
-    const result: Record<string, string> = {};
-    for (const [key, value] of headers) {
-      result[key] = value;
-    }
-    return result;
-  }
-
-  return headers as Record<string, string>;
+  const result: Record<string, string> = {};
+  new Headers(headers).forEach((value, key) => {
+    result[key] = value;
+  });
+  return result;
 }
 
 /**
  * Transform fetch body to Playwright format
  */
-function transformBody(
+async function transformBody(
   body: RequestInit['body'],
   headers: Record<string, string> | undefined
-): Pick<PlaywrightFetchOptions, 'data' | 'form' | 'multipart'> {
+): Promise<Pick<PlaywrightFetchOptions, 'data' | 'form' | 'multipart'>> {
   if (body === undefined || body === null) {
     return {};
   }
 
   // FormData -> multipart
   if (body instanceof FormData) {
-    const multipart: Record<string, string | { name: string; mimeType: string; buffer: Buffer }> = {};
-    body.forEach((value, key) => {
-      if (value instanceof Blob) {
-        multipart[key] = {
-          name: value instanceof File ? value.name : 'blob',
-          mimeType: value.type || 'application/octet-stream',
-          buffer: value as unknown as Buffer,
-        };
-      } else {
-        multipart[key] = value;
-      }
-    });
-    return { multipart };
+    return { multipart: await toMultipart(body.entries()) };
   }
 
   // URLSearchParams -> form
   if (body instanceof URLSearchParams) {
-    return { form: Object.fromEntries(body) };
+    return { form: toForm(body.entries()) };
+  }
+
+  // Binary bodies -> Buffer, which Playwright sends as-is
+  if (body instanceof Blob) {
+    return { data: Buffer.from(await body.arrayBuffer()) };
+  }
+  if (body instanceof ArrayBuffer) {
+    return { data: Buffer.from(body) };
+  }
+  if (ArrayBuffer.isView(body)) {
+    return { data: Buffer.from(body.buffer, body.byteOffset, body.byteLength) };
+  }
+  if (body instanceof ReadableStream) {
+    return { data: Buffer.from(await new Response(body).arrayBuffer()) };
   }
 
   // Check content-type for form data
-  const contentType = headers?.['content-type']?.toLowerCase() || headers?.['Content-Type']?.toLowerCase();
+  const contentType = headers?.['content-type']?.toLowerCase();
 
   if (contentType?.includes('application/x-www-form-urlencoded') && typeof body === 'string') {
-    return { form: Object.fromEntries(new URLSearchParams(body)) };
+    return { form: toForm(new URLSearchParams(body).entries()) };
   }
 
-  // Default: pass as data (JSON, string, ArrayBuffer, etc.)
+  // Default: pass strings as data
   return { data: body };
 }
 
+/**
+ * Add a Blob body's type as the content type, as native fetch does
+ */
+function withBodyContentType(
+  headers: Record<string, string> | undefined,
+  body: RequestInit['body']
+): Record<string, string> | undefined {
+  if (!(body instanceof Blob) || !body.type || headers?.['content-type'] !== undefined) {
+    return headers;
+  }
+  return { ...headers, 'content-type': body.type };
+}
+
+/**
+ * Read the body of a Request object, as native fetch does when no init body is given
+ */
+async function readRequestBody(request: Request): Promise<Buffer | undefined> {
+  if (request.body === null) return undefined;
+  return Buffer.from(await request.arrayBuffer());
+}
+
+/**
+ * Get the reason native fetch rejects with for an aborted signal
+ */
+function getAbortReason(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException('This operation was aborted', 'AbortError');
+}
+
+/**
+ * Subscribe to an AbortSignal, rejecting like native fetch
+ */
+function subscribeAbortSignal(signal: AbortSignal | null | undefined): CancelSubscriber {
+  return (cancel) => {
+    if (!signal) return () => {};
+
+    const onAbort = () => cancel(getAbortReason(signal));
+
+    if (signal.aborted) {
+      onAbort();
+      return () => {};
+    }
+
+    signal.addEventListener('abort', onAbort);
+    return () => signal.removeEventListener('abort', onAbort);
+  };
+}
+
+/**
+ * Method and URL of the request behind each Response, for assertion messages
+ */
+const responseRequests = new WeakMap<Response, { method: string; url: string }>();
+
+/**
+ * Get the request that produced a Response from `createPlaywrightFetch`
+ */
+export function getResponseRequest(response: Response): { method: string; url: string } | undefined {
+  return responseRequests.get(response);
+}
+
+/**
+ * Statuses for which the Response constructor rejects a body
+ */
+const NULL_BODY_STATUSES = new Set([101, 103, 204, 205, 304]);
+
 /**
  * Convert Playwright APIResponse to standard Response
  */
 async function toResponse(apiResponse: APIResponse): Promise<Response> {
-  const body = await apiResponse.body();
-  const headers = new Headers(apiResponse.headers());
+  // Built from headersArray() so repeated headers such as Set-Cookie stay separate
+  const headers = new Headers();
+  for (const { name, value } of apiResponse.headersArray()) {
+    headers.append(name, value);
+  }
   const status = apiResponse.status();
   const statusText = apiResponse.statusText() || getStatusText(status);
+  const body = NULL_BODY_STATUSES.has(status)
+    ? null
+    : bufferToReadableStream(await apiResponse.body());
 
-  return new Response(body, {
+  const response = new Response(body, {
     status,
     statusText,
     headers,
   });
+
+  // Like native fetch, expose the final URL after redirects
+  Object.defineProperty(response, 'url', { value: apiResponse.url() });
+
+  return response;
 }
 
 /**
@@ -127,23 +225,74 @@ export function createPlaywrightFetch(
 ): FetchFunction {
   return async function playwrightFetch(
     input: string | URL | Request,
-    init?: RequestInit
+    init?: PlaywrightRequestInit
   ): Promise<Response> {
-    const url = input instanceof Request ? input.url : input.toString();
-    const method = init?.method || (input instanceof Request ? input.method : 'GET');
-    const headers = transformHeaders(init?.headers || (input instanceof Request ? Object.fromEntries(input.headers) : undefined));
-    const bodyOptions = transformBody(init?.body, headers);
-
-    const apiResponse = await requestContext.fetch(url, {
-      method,
-      headers,
-      ...bodyOptions,
-      timeout: options?.timeout,
-      ignoreHTTPSErrors: options?.ignoreHTTPSErrors,
-      maxRedirects: options?.maxRedirects,
-      maxRetries: options?.maxRetries,
-    });
-
-    return toResponse(apiResponse);
+    const request = input instanceof Request ? input : undefined;
+    const url = request ? request.url : input.toString();
+    const method = init?.method || request?.method || 'GET';
+    const headers = transformHeaders(init?.headers || request?.headers);
+    const signal = init?.signal ?? request?.signal;
+    const body = init?.body !== undefined ? init.body : request && (await readRequestBody(request));
+
+    if (signal?.aborted) {
+      throw getAbortReason(signal);
+    }
+
+    const bodyOptions = await transformBody(body, headers);
+
+    const playwrightRequest: PlaywrightRequest = {
+      url,
+      options: {
+        method,
+        headers: withBodyContentType(headers, body),
+        ...bodyOptions,
+        timeout: options?.timeout,
+        ignoreHTTPSErrors: options?.ignoreHTTPSErrors,
+        maxRedirects: options?.maxRedirects,
+        maxRetries: options?.maxRetries,
+      },
+    };
+    const startedAt = Date.now();
+
+    let response: Response;
+    try {
+      const subscribeCancel = subscribeAbortSignal(signal);
+      const inFlight = dispatchRequest(requestContext, playwrightRequest, options, subscribeCancel);
+
+      // Reject as soon as the signal aborts; a late response is discarded
+      const apiResponse = await raceCancellation(inFlight, subscribeCancel, (late) => {
+        void late.dispose().catch(() => undefined);
+      });
+
+      response = await toResponse(apiResponse);
+      responseRequests.set(response, { method, url });
+
+      if (options?.problemDetails && response.body) {
+        const problem = readResponseProblem(
+          response.status,
+          response.headers.get('content-type'),
+          Buffer.from(await response.clone().arrayBuffer())
+        );
+        if (problem) {
+          setResponseProblem(response, problem);
+        }
+      }
+    } catch (error) {
+      await attachExchange(options, playwrightRequest, startedAt, { error });
+      throw error;
+    }
+
+    if (options?.attachToTestInfo) {
+      await attachExchange(options, playwrightRequest, startedAt, {
+        response: {
+          status: response.status,
+          statusText: response.statusText,
+          headers: Object.fromEntries(response.headers),
+          body: response.body ? Buffer.from(await response.clone().arrayBuffer()) : undefined,
+        },
+      });
+    }
+
+    return response;
   };
 }
@@ -0,0 +1,195 @@
+import { test as base, expect as baseExpect, mergeTests } from '@playwright/test';
+import type {
+  APIRequestContext,
+  Expect,
+  PlaywrightTestArgs,
+  PlaywrightTestOptions,
+  PlaywrightWorkerArgs,
+  PlaywrightWorkerOptions,
+  TestType,
+} from '@playwright/test';
+import axios from 'axios';
+import type { AxiosInstance } from 'axios';
+import { createPlaywrightAdapter } from './axios-adapter';
+import { createPlaywrightFetch } from './fetch-adapter';
+import { apiMatchers, type ApiMatchers } from './matchers';
+import type { FetchFunction, PlaywrightFetchAdapterOptions } from './fetch-adapter';
+import type { PlaywrightAdapterOptions } from './types';
+
+/**
+ * Options configurable through `use` in playwright.config.ts
+ */
+export interface AxiosFixtureOptions {
+  /**
+   * Options passed to `createPlaywrightAdapter` for the `api` fixture
+   */
+  axiosAdapter: PlaywrightAdapterOptions;
+}
+
+export interface FetchFixtureOptions {
+  /**
+   * Options passed to `createPlaywrightFetch` for the `apiFetch` fixture
+   */
+  fetchAdapter: PlaywrightFetchAdapterOptions;
+}
+
+/**
+ * Worker-scoped options, since worker fixtures cannot read test-scoped ones
+ */
+export interface AxiosWorkerFixtureOptions {
+  workerAxiosAdapter: PlaywrightAdapterOptions;
+}
+
+export interface FetchWorkerFixtureOptions {
+  workerFetchAdapter: PlaywrightFetchAdapterOptions;
+}
+
+/**
+ * Test-scoped fixtures, backed by the test's `request` context
+ */
+export interface AxiosFixtures {
+  api: AxiosInstance;
+}
+
+export interface FetchFixtures {
+  apiFetch: FetchFunction;
+}
+
+/**
+ * Worker-scoped fixtures, backed by a context from `playwright.request.newContext`
+ * and shared by all tests of a worker
+ */
+export interface AxiosWorkerFixtures {
+  workerRequest: APIRequestContext;
+  workerApi: AxiosInstance;
+}
+
+export interface FetchWorkerFixtures {
+  workerRequest: APIRequestContext;
+  workerApiFetch: FetchFunction;
+}
+
+type WorkerRequestFixtures = Pick<AxiosWorkerFixtures, 'workerRequest'>;
+
+/**
+ * Shared worker-scoped request context, configured from the project's `use`
+ */
+const requestTest = base.extend<{}, WorkerRequestFixtures>({
+  workerRequest: [
+    async ({ playwright }, use, workerInfo) => {
+      const { baseURL, extraHTTPHeaders, ignoreHTTPSErrors, httpCredentials, proxy } =
+        workerInfo.project.use;
+      const context = await playwright.request.newContext({
+        baseURL,
+        extraHTTPHeaders,
+        ignoreHTTPSErrors,
+        httpCredentials,
+        proxy,
+      });
+      await use(context);
+      await context.dispose();
+    },
+    { scope: 'worker' },
+  ],
+});
+
+/**
+ * Playwright test with axios fixtures
+ *
+ * @example
+ * ```typescript
+ * import { axiosTest as test } from '@iskyex/axios-playwright-adapter/fixtures';
+ *
+ * test('lists users', async ({ api }) => {
+ *   const response = await api.get('/users');
+ * });
+ * ```
+ */
+export const axiosTest: TestType<
+  PlaywrightTestArgs & PlaywrightTestOptions & AxiosFixtures & AxiosFixtureOptions,
+  PlaywrightWorkerArgs & PlaywrightWorkerOptions & AxiosWorkerFixtures & AxiosWorkerFixtureOptions
+> = requestTest.extend<
+  AxiosFixtures & AxiosFixtureOptions,
+  AxiosWorkerFixtures & AxiosWorkerFixtureOptions
+>({
+  axiosAdapter: [{}, { option: true }],
+  workerAxiosAdapter: [{}, { option: true, scope: 'worker' }],
+
+  api: async ({ request, baseURL, axiosAdapter }, use) => {
+    await use(
+      axios.create({
+        adapter: createPlaywrightAdapter(request, axiosAdapter),
+        baseURL,
+      })
+    );
+  },
+
+  workerApi: [
+    async ({ workerRequest, workerAxiosAdapter }, use, workerInfo) => {
+      await use(
+        axios.create({
+          adapter: createPlaywrightAdapter(workerRequest, workerAxiosAdapter),
+          baseURL: workerInfo.project.use.baseURL,
+        })
+      );
+    },
+    { scope: 'worker' },
+  ],
+});
+
+/**
+ * Playwright test with fetch fixtures
+ *
+ * @example
+ * ```typescript
+ * import { fetchTest as test } from '@iskyex/axios-playwright-adapter/fixtures';
+ *
+ * test('lists users', async ({ apiFetch }) => {
+ *   const response = await apiFetch('/users');
+ * });
+ * ```
+ */
+export const fetchTest: TestType<
+  PlaywrightTestArgs & PlaywrightTestOptions & FetchFixtures & FetchFixtureOptions,
+  PlaywrightWorkerArgs & PlaywrightWorkerOptions & FetchWorkerFixtures & FetchWorkerFixtureOptions
+> = requestTest.extend<
+  FetchFixtures & FetchFixtureOptions,
+  FetchWorkerFixtures & FetchWorkerFixtureOptions
+>({
+  fetchAdapter: [{}, { option: true }],
+  workerFetchAdapter: [{}, { option: true, scope: 'worker' }],
+
+  apiFetch: async ({ request, fetchAdapter }, use) => {
+    await use(createPlaywrightFetch(request, fetchAdapter));
+  },
+
+  workerApiFetch: [
+    async ({ workerRequest, workerFetchAdapter }, use) => {
+      await use(createPlaywrightFetch(workerRequest, workerFetchAdapter));
+    },
+    { scope: 'worker' },
+  ],
+});
+
+/**
+ * Playwright test with both axios and fetch fixtures
+ */
+export const test: TestType<
+  PlaywrightTestArgs &
+    PlaywrightTestOptions &
+    AxiosFixtures &
+    AxiosFixtureOptions &
+    FetchFixtures &
+    FetchFixtureOptions,
+  PlaywrightWorkerArgs &
+    PlaywrightWorkerOptions &
+    AxiosWorkerFixtures &
+    AxiosWorkerFixtureOptions &
+    FetchWorkerFixtures &
+    FetchWorkerFixtureOptions
+> = mergeTests(axiosTest, fetchTest);
+
+/**
+ * Playwright expect extended with the response matchers
+ */
+export const expect: Expect<ApiMatchers> = baseExpect.extend(apiMatchers);
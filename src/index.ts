@@ -10,11 +10,56 @@
 
 // Axios adapter
 export { createPlaywrightAdapter } from './axios-adapter';
-export type { PlaywrightAdapterOptions, PlaywrightFetchOptions } from './types';
+export type {
+  AttachToTestInfoOptions,
+  AuthProvider,
+  CookieJar,
+  ExchangeRecord,
+  HarEntry,
+  HarLog,
+  PlaywrightAdapterMode,
+  PlaywrightAdapterOptions,
+  PlaywrightAdapterHooks,
+  PlaywrightAuthOptions,
+  PlaywrightCookie,
+  PlaywrightCookieOptions,
+  PlaywrightDiagnosticsOptions,
+  PlaywrightFetchOptions,
+  PlaywrightProblemDetailsOptions,
+  PlaywrightRecordingOptions,
+  PlaywrightRequest,
+  PlaywrightRetryOptions,
+  PlaywrightSentRequest,
+  PlaywrightStorageState,
+  RedactionOptions,
+  RetryContext,
+  RetryOptions,
+} from './types';
 
 // Fetch adapter (for better-fetch compatibility)
 export { createPlaywrightFetch } from './fetch-adapter';
 export type {
   PlaywrightFetchAdapterOptions,
+  PlaywrightRequestInit,
   FetchFunction,
 } from './fetch-adapter';
+
+// Mock request context
+export { createMockPlaywrightContext } from './mock';
+export type { MockPlaywrightContext, MockRequest, MockRoute } from './mock';
+
+// Auth providers
+export { createBearerAuth, createClientCredentialsAuth, createTokenRefreshAuth } from './auth';
+export type { ClientCredentialsAuthOptions, TokenRefreshAuthOptions } from './auth';
+
+// Cookie jar
+export { createCookieJar, getSetCookies } from './cookie-jar';
+
+// RFC 9457 problem details
+export { getProblemDetails } from './problem-details';
+export type { ProblemDetails, ProblemDetailsError } from './problem-details';
+
+// Response matchers
+export { apiMatchers } from './matchers';
+export type { ApiMatchers, MatchableResponse } from './matchers';
+export type { JSONSchema } from './utils/json-schema';
@@ -0,0 +1,287 @@
+import { isDeepStrictEqual } from 'node:util';
+import type { APIResponse, ExpectMatcherState, MatcherReturnType } from '@playwright/test';
+import type { AxiosResponse } from 'axios';
+import { getResponseRequest } from './fetch-adapter';
+import { buildUrl } from './utils/request';
+import { validateJSONSchema, type JSONSchema } from './utils/json-schema';
+
+const BODY_EXCERPT_LENGTH = 500;
+
+/**
+ * Responses the matchers accept
+ */
+export type MatchableResponse = AxiosResponse | Response | APIResponse;
+
+/**
+ * A response normalised for assertions
+ */
+interface InspectedResponse {
+  status: number;
+  method: string;
+  url: string;
+  getHeader(name: string): string | undefined;
+  readText(): Promise<string>;
+  readJSON(): Promise<unknown>;
+}
+
+function isAxiosResponse(value: unknown): value is AxiosResponse {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'config' in value &&
+    typeof (value as AxiosResponse).status === 'number'
+  );
+}
+
+function isAPIResponse(value: unknown): value is APIResponse {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as APIResponse).status === 'function' &&
+    typeof (value as APIResponse).body === 'function'
+  );
+}
+
+function dataToText(data: unknown): string {
+  if (data === undefined || data === null) return '';
+  if (typeof data === 'string') return data;
+  if (Buffer.isBuffer(data)) return data.toString('utf8');
+  if (data instanceof ArrayBuffer) return Buffer.from(data).toString('utf8');
+  try {
+    return JSON.stringify(data);
+  } catch {
+    return String(data);
+  }
+}
+
+function inspectAxiosResponse(response: AxiosResponse): InspectedResponse {
+  const { headers, config, data } = response;
+
+  return {
+    status: response.status,
+    method: (config.method ?? 'get').toUpperCase(),
+    url: buildUrl(config),
+    getHeader(name) {
+      if (typeof headers.get === 'function') {
+        const value = headers.get(name);
+        return value === undefined || value === null || value === false ? undefined : String(value);
+      }
+      const entry = Object.entries(headers).find(([key]) => key.toLowerCase() === name.toLowerCase());
+      return entry?.[1] === undefined ? undefined : String(entry[1]);
+    },
+    async readText() {
+      return dataToText(data);
+    },
+    async readJSON() {
+      return typeof data === 'string' || Buffer.isBuffer(data) || data instanceof ArrayBuffer
+        ? JSON.parse(dataToText(data))
+        : data;
+    },
+  };
+}
+
+function inspectFetchResponse(response: Response): InspectedResponse {
+  const request = getResponseRequest(response);
+
+  return {
+    status: response.status,
+    method: request?.method.toUpperCase() ?? 'GET',
+    url: request?.url ?? response.url,
+    getHeader: (name) => response.headers.get(name) ?? undefined,
+    readText: () => response.clone().text(),
+    readJSON: () => response.clone().json(),
+  };
+}
+
+function inspectAPIResponse(response: APIResponse): InspectedResponse {
+  return {
+    status: response.status(),
+    method: 'GET',
+    url: response.url(),
+    getHeader: (name) => response.headers()[name.toLowerCase()],
+    readText: () => response.text(),
+    readJSON: () => response.json(),
+  };
+}
+
+function inspect(received: unknown, matcherName: string): InspectedResponse {
+  if (received instanceof Response) return inspectFetchResponse(received);
+  if (isAxiosResponse(received)) return inspectAxiosResponse(received);
+  if (isAPIResponse(received)) return inspectAPIResponse(received);
+
+  throw new Error(
+    `${matcherName}: expected an AxiosResponse, a fetch Response or an APIResponse, received ${typeof received}`
+  );
+}
+
+/**
+ * Describe the request and a body excerpt for failure messages
+ */
+async function describeExchange(response: InspectedResponse): Promise<string> {
+  let body: string;
+  try {
+    body = await response.readText();
+  } catch {
+    body = '<unreadable body>';
+  }
+
+  const excerpt =
+    body.length > BODY_EXCERPT_LENGTH ? `${body.slice(0, BODY_EXCERPT_LENGTH)}…` : body;
+
+  return `Request: ${response.method} ${response.url}\nResponse body: ${excerpt || '<empty>'}`;
+}
+
+async function result(
+  state: ExpectMatcherState,
+  name: string,
+  pass: boolean,
+  response: InspectedResponse,
+  details: string
+): Promise<MatcherReturnType> {
+  const exchange = pass === state.isNot ? await describeExchange(response) : '';
+  const not = state.isNot ? '.not' : '';
+
+  return {
+    name,
+    pass,
+    message: () => `expect(response)${not}.${name}()\n\n${details}\n\n${exchange}`,
+  };
+}
+
+async function toHaveStatus(
+  this: ExpectMatcherState,
+  received: MatchableResponse,
+  expected: number
+): Promise<MatcherReturnType> {
+  const response = inspect(received, 'toHaveStatus');
+  const pass = response.status === expected;
+
+  return result(
+    this,
+    'toHaveStatus',
+    pass,
+    response,
+    `Expected status: ${this.isNot ? 'not ' : ''}${expected}\nReceived status: ${response.status}`
+  );
+}
+
+async function toBeOK(
+  this: ExpectMatcherState,
+  received: MatchableResponse
+): Promise<MatcherReturnType> {
+  const response = inspect(received, 'toBeOK');
+  const pass = response.status >= 200 && response.status < 300;
+
+  return result(
+    this,
+    'toBeOK',
+    pass,
+    response,
+    `Expected status: ${this.isNot ? 'not ' : ''}2xx\nReceived status: ${response.status}`
+  );
+}
+
+async function toHaveHeader(
+  this: ExpectMatcherState,
+  received: MatchableResponse,
+  name: string,
+  expected?: string | RegExp
+): Promise<MatcherReturnType> {
+  const response = inspect(received, 'toHaveHeader');
+  const actual = response.getHeader(name);
+  const pass =
+    actual !== undefined &&
+    (expected === undefined ||
+      (expected instanceof RegExp ? expected.test(actual) : actual === expected));
+
+  const expectation = expected === undefined ? 'present' : String(expected);
+  return result(
+    this,
+    'toHaveHeader',
+    pass,
+    response,
+    `Expected header "${name}": ${this.isNot ? 'not ' : ''}${expectation}\nReceived: ${actual ?? '<missing>'}`
+  );
+}
+
+async function toHaveJSONBody(
+  this: ExpectMatcherState,
+  received: MatchableResponse,
+  expected: unknown
+): Promise<MatcherReturnType> {
+  const response = inspect(received, 'toHaveJSONBody');
+
+  let actual: unknown;
+  try {
+    actual = await response.readJSON();
+  } catch (error) {
+    const details = `Body is not valid JSON: ${(error as Error).message}`;
+    return result(this, 'toHaveJSONBody', false, response, details);
+  }
+
+  const pass = isDeepStrictEqual(actual, expected);
+  return result(
+    this,
+    'toHaveJSONBody',
+    pass,
+    response,
+    `Expected JSON: ${this.isNot ? 'not ' : ''}${JSON.stringify(expected)}\nReceived JSON: ${JSON.stringify(actual)}`
+  );
+}
+
+async function toMatchJSONSchema(
+  this: ExpectMatcherState,
+  received: MatchableResponse,
+  schema: JSONSchema
+): Promise<MatcherReturnType> {
+  const response = inspect(received, 'toMatchJSONSchema');
+
+  let actual: unknown;
+  try {
+    actual = await response.readJSON();
+  } catch (error) {
+    const details = `Body is not valid JSON: ${(error as Error).message}`;
+    return result(this, 'toMatchJSONSchema', false, response, details);
+  }
+
+  const errors = validateJSONSchema(actual, schema);
+  const details =
+    errors.length > 0
+      ? `Schema violations:\n${errors.map(({ path, message }) => `  ${path} ${message}`).join('\n')}`
+      : 'Expected body not to match the schema';
+
+  return result(this, 'toMatchJSONSchema', errors.length === 0, response, details);
+}
+
+/**
+ * Type of `apiMatchers`
+ */
+export type ApiMatchers = {
+  toHaveStatus: typeof toHaveStatus;
+  toBeOK: typeof toBeOK;
+  toHaveHeader: typeof toHaveHeader;
+  toHaveJSONBody: typeof toHaveJSONBody;
+  toMatchJSONSchema: typeof toMatchJSONSchema;
+};
+
+/**
+ * Matchers for axios and fetch responses, for use with `expect.extend`
+ *
+ * @example
+ * ```typescript
+ * import { expect as baseExpect } from '@playwright/test';
+ * import { apiMatchers } from '@iskyex/axios-playwright-adapter';
+ *
+ * const expect = baseExpect.extend(apiMatchers);
+ *
+ * await expect(response).toHaveStatus(200);
+ * await expect(response).toHaveJSONBody({ id: 1 });
+ * ```
+ */
+export const apiMatchers: ApiMatchers = {
+  toHaveStatus,
+  toBeOK,
+  toHaveHeader,
+  toHaveJSONBody,
+  toMatchJSONSchema,
+};
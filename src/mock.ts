@@ -0,0 +1,279 @@
+import { isDeepStrictEqual } from 'node:util';
+import type { APIRequestContext, APIResponse } from '@playwright/test';
+import type { PlaywrightFetchOptions, PlaywrightRequest } from './types';
+import { createAPIResponse } from './utils/api-response';
+import { getFormEntries, groupFields } from './utils/form';
+import { getMultipartEntries, isFilePayload } from './utils/multipart';
+import { getRequestUrl } from './utils/request';
+
+/**
+ * A request as seen by mock routes
+ */
+export interface MockRequest {
+  method: string;
+  url: URL;
+  headers: Record<string, string>;
+  params: Record<string, string>;
+  body: unknown;
+}
+
+/**
+ * A declared response for requests matching a route
+ */
+export interface MockRoute {
+  /**
+   * HTTP method to match, any method when omitted
+   */
+  method?: string;
+
+  /**
+   * Path to match: a string with `:name` segments and `*` wildcards, or a RegExp tested against the pathname
+   */
+  path: string | RegExp;
+
+  /**
+   * Query params the URL must contain, or a predicate over them
+   */
+  query?: Record<string, string> | ((query: URLSearchParams) => boolean);
+
+  /**
+   * Request body to match (deep equality on parsed JSON), or a predicate over it
+   */
+  requestBody?: unknown | ((body: unknown) => boolean);
+
+  status?: number;
+  statusText?: string;
+  headers?: Record<string, string>;
+
+  /**
+   * Response body; strings and Buffers are sent as-is, other values as JSON.
+   * A function receives the matched request.
+   */
+  body?: string | Buffer | number | boolean | null | object | ((request: MockRequest) => unknown);
+
+  /**
+   * Milliseconds to wait before responding; longer than the request `timeout` rejects
+   */
+  delay?: number;
+
+  /**
+   * Number of requests the route answers before it is skipped
+   */
+  times?: number;
+}
+
+/**
+ * An APIRequestContext answering requests from declared routes
+ */
+export type MockPlaywrightContext = APIRequestContext & {
+  /**
+   * Requests received so far, in order
+   */
+  readonly requests: PlaywrightRequest[];
+
+  /**
+   * Add routes; they take precedence over routes declared earlier
+   */
+  route(...routes: MockRoute[]): void;
+};
+
+function compilePath(path: string): { regex: RegExp; names: string[] } {
+  const names: string[] = [];
+  const source = path
+    .split('/')
+    .map((segment) => {
+      if (segment.startsWith(':')) {
+        names.push(segment.slice(1));
+        return '([^/]+)';
+      }
+      return segment
+        .split('*')
+        .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*');
+    })
+    .join('/');
+
+  return { regex: new RegExp(`^${source}/?$`), names };
+}
+
+function matchPath(pattern: string | RegExp, pathname: string): Record<string, string> | undefined {
+  if (pattern instanceof RegExp) {
+    const match = pattern.exec(pathname);
+    return match ? { ...match.groups } : undefined;
+  }
+
+  const { regex, names } = compilePath(pattern);
+  const match = regex.exec(pathname);
+  if (!match) return undefined;
+
+  return Object.fromEntries(names.map((name, index) => [name, decodeURIComponent(match[index + 1])]));
+}
+
+function matchQuery(expected: MockRoute['query'], query: URLSearchParams): boolean {
+  if (expected === undefined) return true;
+  if (typeof expected === 'function') return expected(query);
+  return Object.entries(expected).every(([key, value]) => query.get(key) === value);
+}
+
+function matchBody(expected: unknown, body: unknown): boolean {
+  if (expected === undefined) return true;
+  if (typeof expected === 'function') return Boolean(expected(body));
+  return isDeepStrictEqual(expected, body);
+}
+
+/**
+ * Read the request body the way a route sees it: JSON parsed, forms as plain objects
+ * with repeated fields as arrays
+ */
+async function readRequestBody(options: PlaywrightFetchOptions): Promise<unknown> {
+  const { data, form, multipart } = options;
+
+  if (form !== undefined) {
+    return groupFields(getFormEntries(form).map(([key, value]) => [key, String(value)]));
+  }
+  if (multipart !== undefined) {
+    const fields: Array<[string, Buffer | string]> = [];
+    for (const [key, value] of getMultipartEntries(multipart)) {
+      fields.push([
+        key,
+        isFilePayload(value)
+          ? value.buffer
+          : value instanceof File
+            ? Buffer.from(await value.arrayBuffer())
+            : String(value),
+      ]);
+    }
+    return groupFields(fields);
+  }
+
+  const text = typeof data === 'string' ? data : Buffer.isBuffer(data) ? data.toString('utf8') : undefined;
+  if (text === undefined) return data;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+async function toMockRequest(request: PlaywrightRequest): Promise<MockRequest> {
+  return {
+    method: (request.options.method ?? 'GET').toUpperCase(),
+    url: new URL(getRequestUrl(request), 'http://localhost'),
+    headers: Object.fromEntries(
+      Object.entries(request.options.headers ?? {}).map(([key, value]) => [key.toLowerCase(), value])
+    ),
+    params: {},
+    body: await readRequestBody(request.options),
+  };
+}
+
+function createRouteResponse(route: MockRoute, request: MockRequest): APIResponse {
+  const body = typeof route.body === 'function' ? route.body(request) : route.body;
+  const headers = Object.entries(route.headers ?? {}).map(([name, value]) => ({ name, value }));
+  const isRaw = body === undefined || typeof body === 'string' || Buffer.isBuffer(body);
+
+  if (!isRaw && !headers.some(({ name }) => name.toLowerCase() === 'content-type')) {
+    headers.push({ name: 'content-type', value: 'application/json' });
+  }
+
+  return createAPIResponse({
+    url: request.url.href,
+    status: route.status,
+    statusText: route.statusText,
+    headers,
+    body: isRaw ? (body as Buffer | string | undefined) : JSON.stringify(body),
+  });
+}
+
+/**
+ * Create an APIRequestContext that answers from declared routes instead of the network
+ *
+ * Only `fetch` and `dispose` are implemented, which is all the adapters use.
+ * Routes are tried in reverse declaration order; a request no route matches
+ * rejects like a network error.
+ *
+ * @example
+ * ```typescript
+ * const context = createMockPlaywrightContext([
+ *   { method: 'GET', path: '/users/:id', body: (req) => ({ id: req.params.id }) },
+ * ]);
+ * const client = axios.create({ adapter: createPlaywrightAdapter(context) });
+ * ```
+ */
+export function createMockPlaywrightContext(routes: MockRoute[] = []): MockPlaywrightContext {
+  const declared = [...routes];
+  const usage = new Map<MockRoute, number>();
+  const requests: PlaywrightRequest[] = [];
+  let disposed = false;
+
+  const findRoute = (request: MockRequest): MockRoute | undefined => {
+    for (const route of [...declared].reverse()) {
+      if (route.times !== undefined && (usage.get(route) ?? 0) >= route.times) continue;
+      if (route.method && route.method.toUpperCase() !== request.method) continue;
+
+      const params = matchPath(route.path, request.url.pathname);
+      if (!params) continue;
+      if (!matchQuery(route.query, request.url.searchParams)) continue;
+      if (!matchBody(route.requestBody, request.body)) continue;
+
+      request.params = params;
+      return route;
+    }
+    return undefined;
+  };
+
+  const fetch = async (
+    urlOrRequest: string | Parameters<APIRequestContext['fetch']>[0],
+    options: PlaywrightFetchOptions = {}
+  ): Promise<APIResponse> => {
+    if (disposed) throw new Error('Request context has been disposed');
+    if (typeof urlOrRequest !== 'string') {
+      throw new Error('createMockPlaywrightContext only supports fetch(url, options)');
+    }
+
+    const request: PlaywrightRequest = { url: urlOrRequest, options };
+    requests.push(request);
+
+    const mockRequest = await toMockRequest(request);
+    const route = findRoute(mockRequest);
+    if (!route) {
+      throw new Error(`No mock route matches ${mockRequest.method} ${mockRequest.url.pathname}`);
+    }
+    usage.set(route, (usage.get(route) ?? 0) + 1);
+
+    if (route.delay) {
+      const { timeout } = options;
+      await new Promise((resolve) => setTimeout(resolve, Math.min(route.delay ?? 0, timeout || Infinity)));
+      if (timeout && route.delay > timeout) {
+        throw new Error(`Timeout ${timeout}ms exceeded.`);
+      }
+    }
+    return createRouteResponse(route, mockRequest);
+  };
+
+  const withMethod =
+    (method: string) =>
+    (url: string, options: PlaywrightFetchOptions = {}): Promise<APIResponse> =>
+      fetch(url, { ...options, method });
+  const dispose = async (): Promise<void> => {
+    disposed = true;
+  };
+
+  return {
+    fetch,
+    get: withMethod('GET'),
+    head: withMethod('HEAD'),
+    post: withMethod('POST'),
+    put: withMethod('PUT'),
+    patch: withMethod('PATCH'),
+    delete: withMethod('DELETE'),
+    // The mock keeps no cookies of its own
+    storageState: async () => ({ cookies: [], origins: [] }),
+    dispose,
+    [Symbol.asyncDispose]: dispose,
+    requests,
+    route: (...added: MockRoute[]) => {
+      declared.push(...added);
+    },
+  };
+}
@@ -0,0 +1,114 @@
+import { AxiosError } from 'axios';
+
+/**
+ * RFC 9457 problem details, as returned with `application/problem+json`
+ */
+export interface ProblemDetails {
+  /**
+   * URI identifying the problem type, `about:blank` when absent
+   */
+  type: string;
+  title?: string;
+  status?: number;
+  detail?: string;
+  instance?: string;
+
+  /**
+   * Extension members
+   */
+  [extension: string]: unknown;
+}
+
+/**
+ * AxiosError thrown for a problem+json response when `problemDetails` is enabled
+ */
+export interface ProblemDetailsError<T = unknown> extends AxiosError<T> {
+  problem: ProblemDetails;
+}
+
+const PROBLEM_JSON_CONTENT_TYPE_REGEX = /^application\/problem\+json\s*(?:;|$)/i;
+
+/**
+ * Problem details parsed by the adapters, keyed by axios or fetch response
+ */
+const responseProblems = new WeakMap<object, ProblemDetails>();
+
+export function isProblemJSONContentType(contentType: string | null | undefined): boolean {
+  return PROBLEM_JSON_CONTENT_TYPE_REGEX.test((contentType ?? '').trim());
+}
+
+/**
+ * Read problem details from a parsed (or raw JSON) body
+ *
+ * Members with the wrong type are dropped, as RFC 9457 asks consumers to do.
+ */
+export function parseProblemDetails(body: unknown): ProblemDetails | undefined {
+  let value = body;
+  if (typeof value === 'string' || Buffer.isBuffer(value)) {
+    try {
+      value = JSON.parse(value.toString());
+    } catch {
+      return undefined;
+    }
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return undefined;
+  }
+
+  const { type, title, status, detail, instance, ...extensions } = value as Record<string, unknown>;
+
+  return {
+    ...extensions,
+    type: typeof type === 'string' ? type : 'about:blank',
+    ...(typeof title === 'string' && { title }),
+    ...(typeof status === 'number' && { status }),
+    ...(typeof detail === 'string' && { detail }),
+    ...(typeof instance === 'string' && { instance }),
+  };
+}
+
+/**
+ * Problem details of a non-2xx problem+json response, if any
+ */
+export function readResponseProblem(
+  status: number,
+  contentType: string | null | undefined,
+  body: unknown
+): ProblemDetails | undefined {
+  if ((status >= 200 && status < 300) || !isProblemJSONContentType(contentType)) {
+    return undefined;
+  }
+  return parseProblemDetails(body);
+}
+
+/**
+ * One-line summary of a problem, e.g. `Validation failed: email is invalid`
+ */
+export function formatProblemDetails(problem: ProblemDetails): string {
+  const summary = problem.title ?? (problem.type !== 'about:blank' ? problem.type : undefined);
+  return [summary, problem.detail].filter(Boolean).join(': ');
+}
+
+/**
+ * Remember the problem details of an axios or fetch response
+ */
+export function setResponseProblem(response: object, problem: ProblemDetails): void {
+  responseProblems.set(response, problem);
+}
+
+/**
+ * Get the problem details the adapters parsed for a response or error
+ *
+ * Accepts a fetch `Response`, an axios response, or the `AxiosError` thrown
+ * for it. Only available when the adapter has `problemDetails` enabled.
+ */
+export function getProblemDetails(value: unknown): ProblemDetails | undefined {
+  if (typeof value !== 'object' || value === null) return undefined;
+
+  if (value instanceof AxiosError) {
+    const { problem } = value as Partial<ProblemDetailsError>;
+    return problem ?? (value.response && responseProblems.get(value.response));
+  }
+
+  return responseProblems.get(value);
+}
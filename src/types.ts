@@ -1,4 +1,4 @@
-import type { APIRequestContext } from '@playwright/test';
+import type { APIRequestContext, APIResponse, TestInfo } from '@playwright/test';
 
 /**
  * Playwright fetch options - extracted from APIRequestContext.fetch()
@@ -7,6 +7,394 @@ export type PlaywrightFetchOptions = NonNullable<
   Parameters<APIRequestContext['fetch']>[1]
 >;
 
+/**
+ * A request as it is about to be dispatched through Playwright
+ */
+export interface PlaywrightRequest {
+  url: string;
+  options: PlaywrightFetchOptions;
+}
+
+/**
+ * Serialisable description of a sent request, exposed by the axios adapter
+ * as `response.request` and `error.request`
+ */
+export interface PlaywrightSentRequest {
+  method: string;
+
+  /**
+   * URL with params merged into the query string
+   */
+  url: string;
+
+  headers: Record<string, string>;
+  timeout?: number;
+}
+
+/**
+ * Hooks shared by the axios and fetch adapters
+ */
+export interface PlaywrightAdapterHooks {
+  /**
+   * Called with the final URL and Playwright options before dispatch.
+   * Mutate the request in place or return a replacement.
+   */
+  onRequest?: (
+    request: PlaywrightRequest
+  ) => PlaywrightRequest | void | Promise<PlaywrightRequest | void>;
+
+  /**
+   * Called with the raw Playwright response
+   */
+  onResponse?: (response: APIResponse, request: PlaywrightRequest) => void | Promise<void>;
+
+  /**
+   * Called when Playwright fails to complete the request
+   */
+  onError?: (error: unknown, request: PlaywrightRequest) => void | Promise<void>;
+}
+
+/**
+ * A request/response exchange as recorded in the test report
+ */
+export interface ExchangeRecord {
+  method: string;
+  url: string;
+  startedAt: string;
+  durationMs: number;
+  request: {
+    headers: Record<string, string>;
+    params?: unknown;
+    body?: unknown;
+  };
+  response?: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body?: unknown;
+  };
+  error?: string;
+}
+
+/**
+ * Redaction policy for exchanges the adapters emit for diagnostics
+ */
+export interface RedactionOptions {
+  /**
+   * Additional header names to redact (case-insensitive), on top of the defaults
+   */
+  headers?: string[];
+
+  /**
+   * Paths into JSON and form bodies to redact, e.g. `password`, `user.token`
+   * or `items[*].secret`. `*` matches any key or array index.
+   */
+  jsonPaths?: string[];
+
+  /**
+   * Patterns whose matches are replaced in URLs, header values and body strings
+   */
+  patterns?: RegExp[];
+
+  /**
+   * Replacement for redacted values (default: `[REDACTED]`)
+   */
+  replacement?: string;
+
+  /**
+   * Custom redaction applied after the built-in rules
+   */
+  redact?: (record: ExchangeRecord) => ExchangeRecord;
+}
+
+/**
+ * Options for attaching exchanges to the Playwright test report
+ */
+export interface AttachToTestInfoOptions {
+  /**
+   * Test to attach to, defaults to `test.info()` of the running test
+   */
+  testInfo?: TestInfo;
+
+  /**
+   * Maximum number of characters kept from each body (default: 10000)
+   */
+  maxBodyLength?: number;
+}
+
+/**
+ * Diagnostics options shared by the axios and fetch adapters
+ */
+export interface PlaywrightDiagnosticsOptions {
+  /**
+   * Attach every request/response exchange to the test report
+   */
+  attachToTestInfo?: boolean | AttachToTestInfoOptions;
+
+  /**
+   * Redaction policy for everything emitted for diagnostics.
+   * The `authorization`, `cookie`, `set-cookie` and `x-api-key` headers
+   * are always redacted.
+   */
+  redaction?: RedactionOptions;
+}
+
+/**
+ * HAR 1.2 entry, as recorded and replayed by the adapters
+ */
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    cookies: Array<{ name: string; value: string }>;
+    headers: Array<{ name: string; value: string }>;
+    queryString: Array<{ name: string; value: string }>;
+    postData?: {
+      mimeType: string;
+      text: string;
+      params?: Array<{ name: string; value?: string; fileName?: string; contentType?: string }>;
+    };
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: Array<{ name: string; value: string }>;
+    headers: Array<{ name: string; value: string }>;
+    content: { size: number; mimeType: string; text?: string; encoding?: string };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+  };
+  cache: Record<string, unknown>;
+  timings: { send: number; wait: number; receive: number };
+}
+
+/**
+ * HAR 1.2 file
+ */
+export interface HarLog {
+  log: {
+    version: string;
+    creator: { name: string; version: string };
+    entries: HarEntry[];
+  };
+}
+
+/**
+ * How the adapters use the network
+ * - `passthrough`: always send requests through Playwright (default)
+ * - `record`: send requests and write every exchange to `harPath`
+ * - `replay`: serve responses from `harPath` without any network
+ */
+export type PlaywrightAdapterMode = 'record' | 'replay' | 'passthrough';
+
+/**
+ * Record-and-replay options shared by the axios and fetch adapters
+ */
+export interface PlaywrightRecordingOptions {
+  mode?: PlaywrightAdapterMode;
+
+  /**
+   * HAR file to record to or replay from, required unless `mode` is `passthrough`
+   */
+  harPath?: string;
+
+  /**
+   * Decide whether a recorded entry answers a request in replay mode.
+   * Defaults to matching method and URL (including params).
+   */
+  harMatcher?: (request: PlaywrightRequest, entry: HarEntry) => boolean;
+}
+
+/**
+ * The attempt about to be retried, as passed to `onRetry`
+ */
+export interface RetryContext {
+  /**
+   * Number of the upcoming retry, starting at 1
+   */
+  attempt: number;
+
+  /**
+   * Milliseconds to wait before the retry
+   */
+  delay: number;
+
+  request: PlaywrightRequest;
+
+  /**
+   * Response with a retryable status, already disposed
+   */
+  response?: APIResponse;
+
+  /**
+   * Network error of the failed attempt
+   */
+  error?: unknown;
+}
+
+/**
+ * Retry policy applied by the adapters around Playwright requests
+ */
+export interface RetryOptions {
+  /**
+   * Maximum number of retries (default: 3)
+   */
+  retries?: number;
+
+  /**
+   * Response statuses to retry (default: 408, 429, 500, 502, 503, 504)
+   */
+  statusCodes?: number[];
+
+  /**
+   * Methods to retry (default: GET, HEAD, OPTIONS, PUT, DELETE, TRACE)
+   */
+  methods?: string[];
+
+  /**
+   * Header that makes any method safe to retry when present on the request,
+   * or `false` to only retry `methods` (default: `idempotency-key`)
+   */
+  idempotencyKeyHeader?: string | false;
+
+  /**
+   * Retry when Playwright fails to complete the request (default: true)
+   */
+  retryOnNetworkError?: boolean;
+
+  /**
+   * Delay before the first retry, doubled for each further retry (default: 100)
+   */
+  baseDelay?: number;
+
+  /**
+   * Upper bound for a single delay, including `Retry-After` (default: 10000)
+   */
+  maxDelay?: number;
+
+  /**
+   * Randomize each backoff delay between 0 and its computed value (default: true)
+   */
+  jitter?: boolean;
+
+  /**
+   * Wait as long as the `Retry-After` response header asks (default: true)
+   */
+  respectRetryAfter?: boolean;
+
+  /**
+   * Stop retrying once the next attempt would start later than this many
+   * milliseconds after the first one
+   */
+  maxElapsedTime?: number;
+
+  /**
+   * Called before waiting for each retry
+   */
+  onRetry?: (context: RetryContext) => void | Promise<void>;
+}
+
+/**
+ * Retry options shared by the axios and fetch adapters
+ */
+export interface PlaywrightRetryOptions {
+  /**
+   * Retry policy, or the number of retries with the default policy.
+   * Unlike `maxRetries`, this also retries responses with retryable statuses.
+   */
+  retry?: number | RetryOptions;
+}
+
+/**
+ * RFC 9457 problem details options shared by the axios and fetch adapters
+ */
+export interface PlaywrightProblemDetailsOptions {
+  /**
+   * Parse `application/problem+json` bodies of non-2xx responses.
+   * The axios adapter adds them to the thrown error; read them with
+   * `getProblemDetails()` for either adapter.
+   */
+  problemDetails?: boolean;
+}
+
+/**
+ * Playwright storage state, as returned by `storageState()` of a browser or request context
+ */
+export type PlaywrightStorageState = Awaited<ReturnType<APIRequestContext['storageState']>>;
+
+/**
+ * A cookie in Playwright's storage state format
+ */
+export type PlaywrightCookie = PlaywrightStorageState['cookies'][number];
+
+/**
+ * Cookies shared between the adapters, Playwright's request context and browser contexts
+ */
+export interface CookieJar {
+  /**
+   * Cookies in the jar, or only those sent to `url`
+   */
+  cookies(url?: string): PlaywrightCookie[];
+
+  /**
+   * Add cookies, replacing any with the same name, domain and path
+   */
+  setCookies(cookies: PlaywrightCookie[]): void;
+
+  /**
+   * Export the jar for `browser.newContext({ storageState })` or `request.newContext({ storageState })`
+   */
+  storageState(): PlaywrightStorageState;
+
+  clear(): void;
+}
+
+/**
+ * Cookie jar options shared by the axios and fetch adapters
+ */
+export interface PlaywrightCookieOptions {
+  /**
+   * Cookies sent with every matching request, merged with the request context's own
+   * cookies; `Set-Cookie` results are stored back into it
+   */
+  cookieJar?: CookieJar;
+}
+
+/**
+ * Supplies credentials for requests and renews them after a 401
+ */
+export interface AuthProvider {
+  /**
+   * Headers to add to each request, e.g. `{ Authorization: 'Bearer …' }`
+   */
+  getHeaders(
+    requestContext: APIRequestContext
+  ): Record<string, string> | Promise<Record<string, string>>;
+
+  /**
+   * Renew the credentials after a 401 response; the request is then sent
+   * once more. Concurrent 401s share a single refresh.
+   */
+  refresh?(requestContext: APIRequestContext): void | Promise<void>;
+}
+
+/**
+ * Authentication options shared by the axios and fetch adapters
+ */
+export interface PlaywrightAuthOptions {
+  /**
+   * Credentials added to requests without their own Authorization header
+   */
+  auth?: AuthProvider;
+}
+
 /**
  * Options for the Playwright adapter
  * These map directly to Playwright's fetch options
@@ -14,4 +402,11 @@ export type PlaywrightFetchOptions = NonNullable<
 export type PlaywrightAdapterOptions = Pick<
   PlaywrightFetchOptions,
   'failOnStatusCode' | 'ignoreHTTPSErrors' | 'maxRedirects' | 'maxRetries'
->;
+> &
+  PlaywrightAdapterHooks &
+  PlaywrightAuthOptions &
+  PlaywrightCookieOptions &
+  PlaywrightDiagnosticsOptions &
+  PlaywrightProblemDetailsOptions &
+  PlaywrightRecordingOptions &
+  PlaywrightRetryOptions;
@@ -0,0 +1,69 @@
+import type { APIResponse } from '@playwright/test';
+import { getStatusText } from './shared';
+
+/**
+ * Data needed to build an APIResponse without a network call
+ */
+export interface APIResponseInit {
+  url: string;
+  status?: number;
+  statusText?: string;
+  headers?: Array<{ name: string; value: string }>;
+  body?: Buffer | string;
+}
+
+/**
+ * Merge a header list the way Playwright does for `headers()`:
+ * lower-cased names, repeated values joined with `, ` (`\n` for set-cookie)
+ */
+export function mergeHeadersArray(
+  headers: Array<{ name: string; value: string }>
+): Record<string, string> {
+  const result: Record<string, string> = {};
+
+  for (const { name, value } of headers) {
+    const key = name.toLowerCase();
+    const separator = key === 'set-cookie' ? '\n' : ', ';
+    result[key] = key in result ? `${result[key]}${separator}${value}` : value;
+  }
+
+  return result;
+}
+
+/**
+ * Build an in-memory Playwright APIResponse
+ *
+ * Used to serve responses that never went through the network, so they
+ * flow through the same `transformResponse`/`toResponse` paths.
+ */
+export function createAPIResponse(init: APIResponseInit): APIResponse {
+  const status = init.status ?? 200;
+  const statusText = init.statusText ?? getStatusText(status);
+  const headersArray = init.headers ?? [];
+  const headers = mergeHeadersArray(headersArray);
+  const body = typeof init.body === 'string' ? Buffer.from(init.body) : (init.body ?? Buffer.alloc(0));
+  let disposed = false;
+
+  const readBody = async (): Promise<Buffer> => {
+    if (disposed) throw new Error('Response has been disposed');
+    return body;
+  };
+
+  return {
+    body: readBody,
+    dispose: async () => {
+      disposed = true;
+    },
+    headers: () => ({ ...headers }),
+    headersArray: () => headersArray.map((header) => ({ ...header })),
+    json: async () => JSON.parse((await readBody()).toString('utf8')),
+    ok: () => status >= 200 && status <= 299,
+    status: () => status,
+    statusText: () => statusText,
+    text: async () => (await readBody()).toString('utf8'),
+    url: () => init.url,
+    [Symbol.asyncDispose]: async () => {
+      disposed = true;
+    },
+  };
+}
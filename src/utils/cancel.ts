@@ -0,0 +1,97 @@
+import { CanceledError } from 'axios';
+import type { InternalAxiosRequestConfig } from 'axios';
+
+/**
+ * Registers a cancellation listener and returns a function that removes it
+ */
+export type CancelSubscriber = (cancel: (reason: unknown) => void) => () => void;
+
+/**
+ * Settle with the in-flight task, or reject as soon as it is canceled.
+ *
+ * Once canceled, a late result of the task is handed to `onLateResult`
+ * (e.g. to dispose a Playwright response) and a late failure is swallowed.
+ */
+export function raceCancellation<T>(
+  task: Promise<T>,
+  subscribe: CancelSubscriber,
+  onLateResult?: (value: T) => void
+): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    let settled = false;
+    let unsubscribe: (() => void) | undefined;
+
+    const settle = (): boolean => {
+      if (settled) return false;
+      settled = true;
+      unsubscribe?.();
+      return true;
+    };
+
+    unsubscribe = subscribe((reason) => {
+      if (settle()) reject(reason);
+    });
+
+    // The listener may have fired synchronously (already aborted)
+    if (settled) unsubscribe();
+
+    task.then(
+      (value) => {
+        if (settle()) {
+          resolve(value);
+        } else {
+          onLateResult?.(value);
+        }
+      },
+      (error) => {
+        if (settle()) reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Create the `CanceledError` axios throws for aborted requests
+ */
+export function createCanceledError(
+  config: InternalAxiosRequestConfig,
+  message = 'Request aborted'
+): CanceledError<unknown> {
+  // The runtime signature is (message, config, request), unlike the typings
+  const CanceledErrorCtor = CanceledError as unknown as new (
+    message: string,
+    config: InternalAxiosRequestConfig
+  ) => CanceledError<unknown>;
+  return new CanceledErrorCtor(message, config);
+}
+
+/**
+ * Subscribe to both `config.signal` and the legacy `config.cancelToken`
+ */
+export function subscribeAxiosCancel(config: InternalAxiosRequestConfig): CancelSubscriber {
+  return (cancel) => {
+    const { signal, cancelToken } = config;
+    let active = true;
+
+    const onAbort = () => cancel(createCanceledError(config));
+
+    if (signal?.aborted) {
+      onAbort();
+    } else {
+      signal?.addEventListener?.('abort', onAbort);
+    }
+
+    if (cancelToken?.reason) {
+      cancel(cancelToken.reason);
+    }
+
+    cancelToken?.promise.then((reason) => {
+      if (active) cancel(reason ?? createCanceledError(config, 'canceled'));
+    });
+
+    return () => {
+      active = false;
+      signal?.removeEventListener?.('abort', onAbort);
+    };
+  };
+}
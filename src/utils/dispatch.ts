@@ -0,0 +1,216 @@
+import type { APIRequestContext, APIResponse } from '@playwright/test';
+import { hasAuthorization, refreshAuth, withAuth } from '../auth';
+import {
+  cookieMatches,
+  createContextCookies,
+  getSetCookies,
+  parseCookieHeader,
+  type ContextCookies,
+} from '../cookie-jar';
+import type {
+  CookieJar,
+  PlaywrightAdapterHooks,
+  PlaywrightAuthOptions,
+  PlaywrightCookieOptions,
+  PlaywrightDiagnosticsOptions,
+  PlaywrightRecordingOptions,
+  PlaywrightRequest,
+  PlaywrightRetryOptions,
+} from '../types';
+import type { CancelSubscriber } from './cancel';
+import {
+  assertSingleRecorder,
+  createHarEntry,
+  findHarEntry,
+  harEntryToAPIResponse,
+  recordHarEntry,
+} from './har';
+import { getRequestUrl } from './request';
+import { retryRequest } from './retry';
+
+/**
+ * Adapter options that affect how a request is dispatched
+ */
+export type DispatchOptions = PlaywrightAdapterHooks &
+  PlaywrightAuthOptions &
+  PlaywrightCookieOptions &
+  PlaywrightRecordingOptions &
+  PlaywrightRetryOptions &
+  Pick<PlaywrightDiagnosticsOptions, 'redaction'>;
+
+function getHarPath(options: PlaywrightRecordingOptions): string {
+  if (!options.harPath) {
+    throw new Error(`harPath is required in '${options.mode}' mode`);
+  }
+  return options.harPath;
+}
+
+/**
+ * Serve a request from the HAR file instead of the network
+ */
+function replayRequest(options: DispatchOptions, request: PlaywrightRequest): APIResponse {
+  const harPath = getHarPath(options);
+  const entry = findHarEntry(harPath, request, options.harMatcher, options.redaction);
+
+  if (!entry) {
+    const method = request.options.method ?? 'GET';
+    throw new Error(`No entry in ${harPath} matches ${method} ${getRequestUrl(request)}`);
+  }
+
+  return harEntryToAPIResponse(entry);
+}
+
+/**
+ * Add the jar's cookies to the request's `Cookie` header
+ *
+ * An explicit `Cookie` header stops Playwright from adding the request
+ * context's cookies, so those are merged in too. Precedence: explicit
+ * header, then jar, then request context.
+ */
+async function withCookies(
+  contextCookies: ContextCookies,
+  request: PlaywrightRequest,
+  cookieJar: CookieJar
+): Promise<PlaywrightRequest> {
+  const url = getRequestUrl(request);
+  if (!/^https?:\/\//i.test(url)) return request;
+
+  const target = new URL(url);
+  const matching = (await contextCookies.read()).filter((cookie) => cookieMatches(cookie, target));
+
+  const headers = { ...request.options.headers };
+  const headerName = Object.keys(headers).find((name) => name.toLowerCase() === 'cookie');
+  const explicit = parseCookieHeader(headerName ? headers[headerName] : undefined);
+  if (headerName) delete headers[headerName];
+
+  const merged = new Map<string, string>();
+  for (const cookie of [...matching, ...cookieJar.cookies(url)]) {
+    merged.set(cookie.name, cookie.value);
+  }
+  for (const [name, value] of explicit) {
+    merged.set(name, value);
+  }
+  if (merged.size === 0) return request;
+
+  headers.cookie = [...merged].map(([name, value]) => (name ? `${name}=${value}` : value)).join('; ');
+  return { url: request.url, options: { ...request.options, headers } };
+}
+
+/**
+ * Add the auth provider's headers and the jar's cookies, then run `onRequest`
+ *
+ * Replayed requests get no auth headers, so providers never hit a token endpoint.
+ * The hook sees the request as it will be sent, and may replace it.
+ */
+async function prepareRequest(
+  requestContext: APIRequestContext,
+  contextCookies: ContextCookies,
+  request: PlaywrightRequest,
+  options?: DispatchOptions
+): Promise<PlaywrightRequest> {
+  let prepared = request;
+  if (options?.auth && options.mode !== 'replay') {
+    prepared = await withAuth(requestContext, prepared, options.auth);
+  }
+  if (options?.cookieJar) {
+    prepared = await withCookies(contextCookies, prepared, options.cookieJar);
+  }
+
+  const replacement = await options?.onRequest?.(prepared);
+  return replacement ?? prepared;
+}
+
+/**
+ * Send a single attempt, from the HAR file in replay mode and recorded in record mode
+ */
+async function sendRequest(
+  requestContext: APIRequestContext,
+  contextCookies: ContextCookies,
+  request: PlaywrightRequest,
+  options?: DispatchOptions
+): Promise<APIResponse> {
+  if (options?.mode === 'record') {
+    assertSingleRecorder(getHarPath(options));
+  }
+
+  const startedAt = Date.now();
+  const response =
+    options?.mode === 'replay'
+      ? replayRequest(options, request)
+      : await requestContext.fetch(request.url, request.options);
+
+  // The response may have set cookies, so the next read goes to the request context
+  contextCookies.reset();
+  // Cookies set on redirects only reach the request context, so sync those too
+  if (options?.cookieJar) {
+    options.cookieJar.setCookies(await contextCookies.read());
+    options.cookieJar.setCookies(getSetCookies(response));
+  }
+
+  if (options?.mode === 'record') {
+    const entry = await createHarEntry(request, response, startedAt, options.redaction);
+    recordHarEntry(getHarPath(options), entry);
+  }
+
+  return response;
+}
+
+/**
+ * Send a request through Playwright, running the adapter hooks around it
+ *
+ * Auth headers and jar cookies are added before `onRequest`, so the hook
+ * sees the final Playwright options. Retries happen between the hooks:
+ * `onRequest` runs once, `onResponse` and `onError` see only the final
+ * outcome. A 401 makes the auth provider refresh its credentials, after
+ * which the request is prepared again, `onRequest` included, and resent once.
+ */
+export async function dispatchRequest(
+  requestContext: APIRequestContext,
+  request: PlaywrightRequest,
+  options?: DispatchOptions,
+  subscribeCancel?: CancelSubscriber,
+  contextCookies: ContextCookies = createContextCookies(requestContext)
+): Promise<APIResponse> {
+  const original: PlaywrightRequest = { url: request.url, options: { ...request.options } };
+  const explicitAuthorization = hasAuthorization(original);
+
+  const send = async () => {
+    const fresh = { url: original.url, options: { ...original.options } };
+    const prepared = await prepareRequest(requestContext, contextCookies, fresh, options);
+    // Apply the prepared request in place so callers see the request that was sent
+    if (prepared !== request) {
+      Object.assign(request, prepared);
+    }
+
+    return retryRequest(
+      () => sendRequest(requestContext, contextCookies, request, options),
+      request,
+      options?.retry,
+      subscribeCancel
+    );
+  };
+
+  let response: APIResponse;
+  try {
+    response = await send();
+
+    const auth = options?.auth;
+    if (
+      response.status() === 401 &&
+      auth?.refresh &&
+      options?.mode !== 'replay' &&
+      !explicitAuthorization
+    ) {
+      await response.dispose().catch(() => undefined);
+      await refreshAuth(requestContext, auth, request);
+      contextCookies.reset();
+      response = await send();
+    }
+  } catch (error) {
+    await options?.onError?.(error, request);
+    throw error;
+  }
+
+  await options?.onResponse?.(response, request);
+  return response;
+}
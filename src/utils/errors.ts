@@ -0,0 +1,112 @@
+import { AxiosError } from 'axios';
+import type { AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { formatProblemDetails, type ProblemDetails } from '../problem-details';
+
+/**
+ * Node TLS error codes for the messages Playwright reports without a code
+ */
+const CERTIFICATE_ERRORS: Array<[RegExp, string]> = [
+  [/self[- ]signed certificate in certificate chain/i, 'SELF_SIGNED_CERT_IN_CHAIN'],
+  [/self[- ]signed certificate/i, 'DEPTH_ZERO_SELF_SIGNED_CERT'],
+  [/certificate has expired/i, 'CERT_HAS_EXPIRED'],
+  [/certificate is not yet valid/i, 'CERT_NOT_YET_VALID'],
+  [/unable to verify the first certificate/i, 'UNABLE_TO_VERIFY_LEAF_SIGNATURE'],
+  [/unable to get local issuer certificate/i, 'UNABLE_TO_GET_ISSUER_CERT_LOCALLY'],
+  [/does not match certificate's altnames/i, 'ERR_TLS_CERT_ALTNAME_INVALID'],
+];
+
+/**
+ * System error codes as they appear in Playwright messages,
+ * e.g. `getaddrinfo ENOTFOUND api.example.com`
+ */
+const SYSTEM_ERROR_CODE_REGEX =
+  /\b(ECONNREFUSED|ECONNRESET|ENOTFOUND|EAI_AGAIN|ETIMEDOUT|EHOSTUNREACH|ENETUNREACH|EPIPE|EPROTO|[A-Z_]*CERT[A-Z_]*|ERR_TLS_[A-Z_]+|ERR_SSL_[A-Z_]+)\b/;
+
+function isTimeoutError(error: Error): boolean {
+  return error.name === 'TimeoutError' || /\bTimeout \d+ms exceeded\b/.test(error.message);
+}
+
+/**
+ * Get the axios error code for a Playwright failure message
+ */
+export function classifyErrorCode(message: string): string {
+  if (/Max redirect count exceeded/i.test(message)) {
+    return AxiosError.ERR_FR_TOO_MANY_REDIRECTS;
+  }
+
+  const systemCode = SYSTEM_ERROR_CODE_REGEX.exec(message)?.[1];
+  if (systemCode) return systemCode;
+
+  const certificateError = CERTIFICATE_ERRORS.find(([pattern]) => pattern.test(message));
+  if (certificateError) return certificateError[1];
+
+  return AxiosError.ERR_NETWORK;
+}
+
+/**
+ * Create the timeout error axios' http adapter throws
+ */
+function createTimeoutError(config: InternalAxiosRequestConfig, request: unknown): AxiosError {
+  const message =
+    config.timeoutErrorMessage ??
+    (config.timeout ? `timeout of ${config.timeout}ms exceeded` : 'timeout exceeded');
+  const code = config.transitional?.clarifyTimeoutError
+    ? AxiosError.ETIMEDOUT
+    : AxiosError.ECONNABORTED;
+
+  return new AxiosError(message, code, config, request);
+}
+
+/**
+ * Convert a Playwright failure into the AxiosError axios' http adapter would throw
+ *
+ * The original error is kept as `cause`.
+ */
+export function toAxiosError(
+  error: unknown,
+  config: InternalAxiosRequestConfig,
+  request?: unknown
+): AxiosError {
+  const original = error instanceof Error ? error : new Error(String(error));
+
+  const axiosError = isTimeoutError(original)
+    ? createTimeoutError(config, request)
+    : new AxiosError(
+        original.message || 'Request failed',
+        classifyErrorCode(original.message),
+        config,
+        request
+      );
+  axiosError.cause = error;
+  return axiosError;
+}
+
+/**
+ * Reject responses failing `validateStatus`, like axios' `settle`:
+ * `ERR_BAD_REQUEST` for 4xx, `ERR_BAD_RESPONSE` for 5xx
+ *
+ * With `problem`, the summary is appended to the message and the details
+ * are attached as `error.problem`.
+ */
+export function settle<T>(response: AxiosResponse<T>, problem?: ProblemDetails): AxiosResponse<T> {
+  const { status, config } = response;
+  const { validateStatus } = config;
+
+  if (!status || !validateStatus || validateStatus(status)) {
+    return response;
+  }
+
+  const summary = problem && formatProblemDetails(problem);
+  const error = new AxiosError(
+    `Request failed with status code ${status}${summary ? ` (${summary})` : ''}`,
+    [AxiosError.ERR_BAD_REQUEST, AxiosError.ERR_BAD_RESPONSE][Math.floor(status / 100) - 4],
+    config,
+    response.request,
+    response
+  );
+
+  if (problem) {
+    Object.assign(error, { problem });
+  }
+  throw error;
+}
@@ -0,0 +1,70 @@
+import type { PlaywrightFetchOptions } from '../types';
+
+export type Form = NonNullable<PlaywrightFetchOptions['form']>;
+
+type FormValue = string | number | boolean;
+
+/**
+ * Build Playwright's `form` option from name/value pairs
+ *
+ * Repeated names (`tag=a&tag=b`) need a FormData, as the `form` record
+ * holds one value per name. `undefined` and `null` values are skipped.
+ */
+export function toForm(entries: Iterable<[string, unknown]>): Form {
+  const fields: Array<[string, FormValue]> = [];
+  for (const [name, value] of entries) {
+    if (value === undefined || value === null) continue;
+    fields.push([
+      name,
+      typeof value === 'number' || typeof value === 'boolean' ? value : String(value),
+    ]);
+  }
+
+  const names = new Set(fields.map(([name]) => name));
+  if (names.size === fields.length) {
+    return Object.fromEntries(fields);
+  }
+
+  const formData = new FormData();
+  for (const [name, value] of fields) {
+    formData.append(name, String(value));
+  }
+  return formData;
+}
+
+/**
+ * Fields of a `form` option, whether a record or a FormData
+ */
+export function getFormEntries(form: Form): Array<[string, FormValue]> {
+  if (form instanceof FormData) {
+    return [...form.entries()].map(([name, value]) => [name, String(value)]);
+  }
+  return Object.entries(form);
+}
+
+/**
+ * Encode a `form` option as `application/x-www-form-urlencoded`
+ */
+export function encodeForm(form: Form): string {
+  const params = new URLSearchParams();
+  for (const [name, value] of getFormEntries(form)) {
+    params.append(name, String(value));
+  }
+  return params.toString();
+}
+
+/**
+ * Collect fields into an object, turning repeated names into arrays
+ */
+export function groupFields<T>(entries: Iterable<[string, T]>): Record<string, T | T[]> {
+  const fields: Record<string, T | T[]> = {};
+  for (const [name, value] of entries) {
+    if (!Object.hasOwn(fields, name)) {
+      fields[name] = value;
+      continue;
+    }
+    const previous = fields[name];
+    fields[name] = [...(Array.isArray(previous) ? previous : [previous]), value];
+  }
+  return fields;
+}
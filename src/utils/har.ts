@@ -0,0 +1,245 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import type { APIResponse } from '@playwright/test';
+import type {
+  HarEntry,
+  HarLog,
+  PlaywrightFetchOptions,
+  PlaywrightRecordingOptions,
+  PlaywrightRequest,
+  RedactionOptions,
+} from '../types';
+import { createAPIResponse } from './api-response';
+import { redactBody, redactHeaders, redactUrl } from './redact';
+import { encodeForm } from './form';
+import { getMultipartEntries, isFilePayload } from './multipart';
+import { getRequestUrl } from './request';
+import { isTextContentType } from './shared';
+
+/**
+ * Package version, replaced at build time
+ */
+declare const __PACKAGE_VERSION__: string | undefined;
+
+const CREATOR = {
+  name: '@iskyex/axios-playwright-adapter',
+  version: typeof __PACKAGE_VERSION__ === 'string' ? __PACKAGE_VERSION__ : '0.0.0-dev',
+};
+
+/**
+ * HAR logs being recorded, keyed by file path
+ */
+const recordings = new Map<string, HarLog>();
+
+/**
+ * Parsed HAR files being replayed and how often each entry was served
+ */
+const replays = new Map<string, { log: HarLog; served: Map<HarEntry, number> }>();
+
+function toHeaderList(headers: Record<string, string> | undefined): HarEntry['request']['headers'] {
+  return Object.entries(headers ?? {}).map(([name, value]) => ({ name, value: String(value) }));
+}
+
+function redactText(text: string, redaction?: RedactionOptions): string {
+  return redactBody(text, redaction) as string;
+}
+
+function getContentType(headers: Record<string, string> | undefined): string | undefined {
+  const entry = Object.entries(headers ?? {}).find(([key]) => key.toLowerCase() === 'content-type');
+  return entry?.[1];
+}
+
+/**
+ * Describe a request body as HAR `postData`, with the redaction policy applied
+ */
+function getPostData(
+  options: PlaywrightFetchOptions,
+  redaction?: RedactionOptions
+): HarEntry['request']['postData'] {
+  const { data, form, multipart, headers } = options;
+
+  if (form !== undefined) {
+    return {
+      mimeType: 'application/x-www-form-urlencoded',
+      text: redactText(encodeForm(form), redaction),
+    };
+  }
+
+  if (multipart !== undefined) {
+    return {
+      mimeType: 'multipart/form-data',
+      text: '',
+      params: getMultipartEntries(multipart).map(([name, value]) =>
+        isFilePayload(value)
+          ? { name, fileName: value.name, contentType: value.mimeType }
+          : value instanceof File
+            ? { name, fileName: value.name, contentType: value.type }
+            : { name, value: redactText(String(value), redaction) }
+      ),
+    };
+  }
+
+  if (data === undefined || data === null) return undefined;
+
+  const mimeType = getContentType(headers) ?? 'application/octet-stream';
+  if (typeof data === 'string') return { mimeType, text: redactText(data, redaction) };
+  if (Buffer.isBuffer(data)) return { mimeType, text: redactText(data.toString('utf8'), redaction) };
+  return {
+    mimeType: getContentType(headers) ?? 'application/json',
+    text: JSON.stringify(redactBody(data, redaction)),
+  };
+}
+
+/**
+ * Build a HAR entry from a request and its Playwright response
+ *
+ * The redaction policy applies to the request headers and body only; the
+ * response is kept as received so replay serves exactly what was recorded.
+ */
+export async function createHarEntry(
+  request: PlaywrightRequest,
+  response: APIResponse,
+  startedAt: number,
+  redaction?: RedactionOptions
+): Promise<HarEntry> {
+  const url = redactUrl(getRequestUrl(request), redaction);
+  const body = await response.body();
+  const mimeType = response.headers()['content-type'] ?? '';
+  const isText = isTextContentType(mimeType);
+  const postData = getPostData(request.options, redaction);
+
+  return {
+    startedDateTime: new Date(startedAt).toISOString(),
+    time: Date.now() - startedAt,
+    request: {
+      method: request.options.method ?? 'GET',
+      url,
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: toHeaderList(redactHeaders(request.options.headers, redaction)),
+      queryString: [...new URL(url, 'http://localhost').searchParams].map(([name, value]) => ({
+        name,
+        value,
+      })),
+      ...(postData && { postData }),
+      headersSize: -1,
+      bodySize: postData ? Buffer.byteLength(postData.text) : 0,
+    },
+    response: {
+      status: response.status(),
+      statusText: response.statusText(),
+      httpVersion: 'HTTP/1.1',
+      cookies: [],
+      headers: response.headersArray(),
+      content: {
+        size: body.length,
+        mimeType,
+        text: isText ? body.toString('utf8') : body.toString('base64'),
+        ...(!isText && { encoding: 'base64' }),
+      },
+      redirectURL: '',
+      headersSize: -1,
+      bodySize: body.length,
+    },
+    cache: {},
+    timings: { send: 0, wait: Date.now() - startedAt, receive: 0 },
+  };
+}
+
+/**
+ * Refuse to record from a second Playwright worker
+ *
+ * Each worker process keeps its own log and rewrites the whole file, so
+ * parallel workers would drop each other's entries.
+ */
+export function assertSingleRecorder(harPath: string): void {
+  if (Number(process.env.TEST_PARALLEL_INDEX ?? 0) > 0) {
+    throw new Error(
+      `Recording to ${harPath} needs a single Playwright worker; run with --workers=1`
+    );
+  }
+}
+
+/**
+ * Append an entry to the HAR file being recorded
+ *
+ * Entries are added to an existing file, so a worker Playwright restarts
+ * after a failed test keeps what was recorded before; delete the file to
+ * record from scratch. The file is rewritten after every entry so it is
+ * complete even if the run aborts. A replay of the same file in this
+ * process reads it afresh.
+ */
+export function recordHarEntry(harPath: string, entry: HarEntry): void {
+  let log = recordings.get(harPath);
+  if (!log) {
+    log = existsSync(harPath)
+      ? (JSON.parse(readFileSync(harPath, 'utf8')) as HarLog)
+      : { log: { version: '1.2', creator: CREATOR, entries: [] } };
+    recordings.set(harPath, log);
+  }
+
+  log.log.entries.push(entry);
+  mkdirSync(dirname(harPath), { recursive: true });
+  writeFileSync(harPath, JSON.stringify(log, null, 2));
+  replays.delete(harPath);
+}
+
+/**
+ * Default replay matching: same method and URL, redacted like recorded ones
+ */
+function matchesEntry(
+  request: PlaywrightRequest,
+  entry: HarEntry,
+  redaction?: RedactionOptions
+): boolean {
+  return (
+    entry.request.method.toUpperCase() === (request.options.method ?? 'GET').toUpperCase() &&
+    entry.request.url === redactUrl(getRequestUrl(request), redaction)
+  );
+}
+
+/**
+ * Find the recorded entry that answers a request
+ *
+ * Entries with the same request body, once redacted like recorded ones, are preferred.
+ * Repeated requests are served the matching entries in recorded order, then the last one again.
+ */
+export function findHarEntry(
+  harPath: string,
+  request: PlaywrightRequest,
+  matcher: PlaywrightRecordingOptions['harMatcher'] = (candidate, entry) =>
+    matchesEntry(candidate, entry, redaction),
+  redaction?: RedactionOptions
+): HarEntry | undefined {
+  let replay = replays.get(harPath);
+  if (!replay) {
+    replay = { log: JSON.parse(readFileSync(harPath, 'utf8')) as HarLog, served: new Map() };
+    replays.set(harPath, replay);
+  }
+
+  const candidates = replay.log.log.entries.filter((entry) => matcher(request, entry));
+  if (candidates.length === 0) return undefined;
+
+  const postData = getPostData(request.options, redaction)?.text;
+  const sameBody = candidates.filter((entry) => entry.request.postData?.text === postData);
+  const pool = sameBody.length > 0 ? sameBody : candidates;
+
+  const entry = pool.find((candidate) => !replay.served.has(candidate)) ?? pool[pool.length - 1];
+  replay.served.set(entry, (replay.served.get(entry) ?? 0) + 1);
+  return entry;
+}
+
+/**
+ * Build an APIResponse from a recorded entry
+ */
+export function harEntryToAPIResponse(entry: HarEntry): APIResponse {
+  const { status, statusText, headers, content } = entry.response;
+
+  return createAPIResponse({
+    url: entry.request.url,
+    status,
+    statusText,
+    headers,
+    body: Buffer.from(content.text ?? '', content.encoding === 'base64' ? 'base64' : 'utf8'),
+  });
+}
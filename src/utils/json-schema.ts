@@ -0,0 +1,167 @@
+/**
+ * JSON Schema keywords supported by `validateJSONSchema`
+ */
+export interface JSONSchema {
+  type?: JSONSchemaType | JSONSchemaType[];
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JSONSchema;
+  items?: JSONSchema;
+  minItems?: number;
+  maxItems?: number;
+  enum?: unknown[];
+  const?: unknown;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  anyOf?: JSONSchema[];
+  oneOf?: JSONSchema[];
+  allOf?: JSONSchema[];
+  not?: JSONSchema;
+  [keyword: string]: unknown;
+}
+
+export type JSONSchemaType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'object'
+  | 'array'
+  | 'null';
+
+/**
+ * A schema violation at a JSON pointer-like path
+ */
+export interface JSONSchemaError {
+  path: string;
+  message: string;
+}
+
+function getType(value: unknown): JSONSchemaType | 'undefined' {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  if (typeof value === 'object') return 'object';
+  return typeof value as JSONSchemaType | 'undefined';
+}
+
+function matchesType(value: unknown, type: JSONSchemaType): boolean {
+  const actual = getType(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Validate a value against a subset of JSON Schema (draft 2020-12 keywords)
+ *
+ * Unsupported keywords (e.g. `format`, `$ref`) are ignored.
+ */
+export function validateJSONSchema(
+  value: unknown,
+  schema: JSONSchema,
+  path = '$'
+): JSONSchemaError[] {
+  const errors: JSONSchemaError[] = [];
+  const fail = (message: string) => errors.push({ path, message });
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      fail(`expected ${types.join(' | ')}, received ${getType(value)}`);
+      return errors;
+    }
+  }
+
+  if (schema.const !== undefined && !isEqual(value, schema.const)) {
+    fail(`expected ${JSON.stringify(schema.const)}`);
+  }
+
+  if (schema.enum && !schema.enum.some((option) => isEqual(value, option))) {
+    fail(`expected one of ${JSON.stringify(schema.enum)}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      fail(`expected >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      fail(`expected <= ${schema.maximum}`);
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      fail(`expected length >= ${schema.minLength}`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      fail(`expected length <= ${schema.maxLength}`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern, 'u').test(value)) {
+      fail(`expected to match ${schema.pattern}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      fail(`expected at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      fail(`expected at most ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        errors.push(...validateJSONSchema(item, schema.items!, `${path}[${index}]`));
+      });
+    }
+  }
+
+  if (getType(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    const properties = schema.properties ?? {};
+
+    for (const key of schema.required ?? []) {
+      if (!(key in object)) {
+        errors.push({ path: `${path}.${key}`, message: 'is required' });
+      }
+    }
+
+    for (const [key, item] of Object.entries(object)) {
+      if (properties[key]) {
+        errors.push(...validateJSONSchema(item, properties[key], `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push({ path: `${path}.${key}`, message: 'is not allowed' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validateJSONSchema(item, schema.additionalProperties, `${path}.${key}`));
+      }
+    }
+  }
+
+  if (schema.allOf) {
+    for (const subschema of schema.allOf) {
+      errors.push(...validateJSONSchema(value, subschema, path));
+    }
+  }
+
+  if (schema.anyOf && !schema.anyOf.some((s) => validateJSONSchema(value, s, path).length === 0)) {
+    fail('expected to match at least one schema in anyOf');
+  }
+
+  if (schema.oneOf) {
+    const matches = schema.oneOf.filter((s) => validateJSONSchema(value, s, path).length === 0);
+    if (matches.length !== 1) {
+      fail(`expected to match exactly one schema in oneOf, matched ${matches.length}`);
+    }
+  }
+
+  if (schema.not && validateJSONSchema(value, schema.not, path).length === 0) {
+    fail('expected not to match schema in not');
+  }
+
+  return errors;
+}
@@ -0,0 +1,168 @@
+import { basename } from 'node:path';
+import type { ReadStream } from 'node:fs';
+import type { Readable } from 'node:stream';
+import type { PlaywrightFetchOptions } from '../types';
+
+/**
+ * File part in the shape Playwright's `multipart` option expects
+ */
+export interface FilePayload {
+  name: string;
+  mimeType: string;
+  buffer: Buffer;
+}
+
+export type Multipart = NonNullable<PlaywrightFetchOptions['multipart']>;
+
+/**
+ * A multipart field as found in a `multipart` record or FormData
+ */
+export type MultipartValue = string | number | boolean | ReadStream | FilePayload | File;
+
+const DEFAULT_FILE_NAME = 'blob';
+const DEFAULT_MIME_TYPE = 'application/octet-stream';
+
+export function isFilePayload(value: unknown): value is FilePayload {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    'buffer' in value &&
+    'name' in value &&
+    'mimeType' in value
+  );
+}
+
+/**
+ * Whether the value is an `fs.ReadStream` or a similar readable stream
+ */
+export function isReadStreamLike(value: unknown): value is ReadStream {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as ReadStream).on === 'function' &&
+    typeof (value as ReadStream).pipe === 'function' &&
+    typeof (value as ReadStream).read === 'function'
+  );
+}
+
+/**
+ * Instance of the `form-data` package, which axios builds in Node for
+ * objects sent as `multipart/form-data`
+ */
+export interface FormDataStream extends Pick<Readable, 'on' | 'resume'> {
+  getHeaders(): Record<string, string>;
+  getBoundary(): string;
+}
+
+export function isFormDataStream(value: unknown): value is FormDataStream {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as FormDataStream).getHeaders === 'function' &&
+    typeof (value as FormDataStream).getBoundary === 'function' &&
+    typeof (value as FormDataStream).on === 'function'
+  );
+}
+
+/**
+ * Encode a `form-data` instance into the exact body axios' http adapter would send
+ */
+export function readFormDataStream(form: FormDataStream): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    form.on('data', (chunk: Buffer | string) => chunks.push(Buffer.from(chunk)));
+    form.on('end', () => resolve(Buffer.concat(chunks)));
+    form.on('error', reject);
+    form.resume();
+  });
+}
+
+function readStream(stream: ReadStream): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    stream.on('data', (chunk: Buffer | string) => chunks.push(Buffer.from(chunk)));
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+    stream.on('error', reject);
+  });
+}
+
+/**
+ * Read a Blob, File or read stream into the file payload Playwright sends
+ *
+ * Blobs are named `blob` like browsers do; read streams take the basename
+ * of their path. The MIME type defaults to `application/octet-stream`.
+ */
+export async function toFilePayload(value: Blob | ReadStream): Promise<FilePayload> {
+  if (value instanceof Blob) {
+    return {
+      name: (value instanceof File && value.name) || DEFAULT_FILE_NAME,
+      mimeType: value.type || DEFAULT_MIME_TYPE,
+      buffer: Buffer.from(await value.arrayBuffer()),
+    };
+  }
+
+  const path = (value as { path?: unknown }).path;
+  const hasPath = typeof path === 'string' || Buffer.isBuffer(path);
+  return {
+    name: hasPath ? basename(String(path)) : DEFAULT_FILE_NAME,
+    mimeType: DEFAULT_MIME_TYPE,
+    buffer: await readStream(value),
+  };
+}
+
+async function toMultipartValue(value: unknown): Promise<string | number | boolean | FilePayload> {
+  if (value instanceof Blob || isReadStreamLike(value)) {
+    return toFilePayload(value);
+  }
+  if (isFilePayload(value)) {
+    return {
+      name: value.name || DEFAULT_FILE_NAME,
+      mimeType: value.mimeType || DEFAULT_MIME_TYPE,
+      buffer: Buffer.isBuffer(value.buffer) ? value.buffer : Buffer.from(value.buffer),
+    };
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return value;
+  }
+  return String(value);
+}
+
+/**
+ * Build Playwright's `multipart` option from form entries, reading files into Buffers
+ *
+ * Files are buffered so retries, recording and reports can reuse them.
+ * Repeated names need a FormData, as the `multipart` record holds one value
+ * per name.
+ */
+export async function toMultipart(entries: Iterable<[string, unknown]>): Promise<Multipart> {
+  const fields: Array<[string, string | number | boolean | FilePayload]> = [];
+  for (const [name, value] of entries) {
+    if (value === undefined || value === null) continue;
+    fields.push([name, await toMultipartValue(value)]);
+  }
+
+  const names = new Set(fields.map(([name]) => name));
+  if (names.size === fields.length) {
+    return Object.fromEntries(fields);
+  }
+
+  const formData = new FormData();
+  for (const [name, value] of fields) {
+    if (isFilePayload(value)) {
+      formData.append(name, new File([value.buffer], value.name, { type: value.mimeType }));
+    } else {
+      formData.append(name, String(value));
+    }
+  }
+  return formData;
+}
+
+/**
+ * Fields of a `multipart` option, whether a record or a FormData
+ */
+export function getMultipartEntries(multipart: Multipart): Array<[string, MultipartValue]> {
+  if (multipart instanceof FormData) {
+    return [...multipart.entries()];
+  }
+  return Object.entries(multipart);
+}
@@ -0,0 +1,148 @@
+import type {
+  CustomParamsSerializer,
+  InternalAxiosRequestConfig,
+  ParamsSerializerOptions,
+} from 'axios';
+
+type ParamEncoder = (value: unknown, defaultEncoder: (value: unknown) => string) => string;
+
+/**
+ * Percent-encode a query component like axios, keeping `:$,` and spaces as `+`
+ */
+export function encodeParam(value: unknown): string {
+  return encodeURIComponent(String(value))
+    .replace(/%3A/gi, ':')
+    .replace(/%24/g, '$')
+    .replace(/%2C/gi, ',')
+    .replace(/%20/g, '+');
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === null || prototype === Object.prototype;
+}
+
+function isVisitable(value: unknown): value is Record<string, unknown> | unknown[] {
+  return Array.isArray(value) || isPlainObject(value);
+}
+
+function isFlatArray(value: unknown[]): boolean {
+  return !value.some(isVisitable);
+}
+
+function removeBrackets(key: string): string {
+  return key.endsWith('[]') ? key.slice(0, -2) : key;
+}
+
+function renderKey(path: Array<string | number>, dots: boolean): string {
+  if (path.length === 1) return String(path[0]);
+
+  return path
+    .map((token, index) => {
+      const name = removeBrackets(String(token));
+      return !dots && index ? `[${name}]` : name;
+    })
+    .join(dots ? '.' : '');
+}
+
+function convertValue(value: unknown): unknown {
+  if (value === null) return '';
+  if (value instanceof Date) return value.toISOString();
+  return value;
+}
+
+/**
+ * Flatten params into name/value pairs, following axios' `toFormData` rules:
+ * `ids[]=1` arrays (`ids[0]=1` with `indexes: true`, `ids=1` with `indexes: null`),
+ * `filter[name]=x` nested objects (`filter.name=x` with `dots`), `key{}` as JSON,
+ * and Dates as ISO strings. `undefined` and `null` entries are skipped.
+ */
+export function flattenParams(
+  params: object,
+  options: Pick<ParamsSerializerOptions, 'dots' | 'indexes' | 'metaTokens'> = {}
+): Array<[string, unknown]> {
+  const { dots = false, indexes = false, metaTokens = true } = options;
+  const pairs: Array<[string, unknown]> = [];
+
+  const visit = (value: unknown, key: string | number, path: Array<string | number>) => {
+    if (value === undefined || value === null) return;
+
+    if (path.length === 0 && typeof value === 'object') {
+      let name = String(key);
+      const current = value;
+
+      if (name.endsWith('{}')) {
+        pairs.push([metaTokens ? name : name.slice(0, -2), JSON.stringify(current)]);
+        return;
+      }
+
+      if (Array.isArray(current) && (isFlatArray(current) || name.endsWith('[]'))) {
+        name = removeBrackets(name);
+        current.forEach((element, index) => {
+          if (element === undefined || element === null) return;
+          if (indexes === true) pairs.push([renderKey([name, index], dots), convertValue(element)]);
+          else pairs.push([indexes === null ? name : `${name}[]`, convertValue(element)]);
+        });
+        return;
+      }
+    }
+
+    if (isVisitable(value)) {
+      for (const [childKey, child] of Object.entries(value)) {
+        visit(child, Array.isArray(value) ? Number(childKey) : childKey, [...path, key]);
+      }
+      return;
+    }
+
+    pairs.push([renderKey([...path, key], dots), convertValue(value)]);
+  };
+
+  for (const [key, value] of Object.entries(params)) {
+    visit(value, key, []);
+  }
+  return pairs;
+}
+
+/**
+ * Serialize params the way axios' `buildURL` does, honouring `paramsSerializer`
+ */
+export function serializeParams(
+  params: unknown,
+  paramsSerializer?: ParamsSerializerOptions | CustomParamsSerializer
+): string {
+  const options =
+    typeof paramsSerializer === 'function' ? { serialize: paramsSerializer } : paramsSerializer;
+
+  if (options?.serialize) {
+    return options.serialize(params as Record<string, unknown>, options);
+  }
+  if (params instanceof URLSearchParams) {
+    return params.toString();
+  }
+  if (typeof params !== 'object' || params === null) {
+    return '';
+  }
+
+  const encode = options?.encode as ParamEncoder | undefined;
+  const encodeComponent = encode ? (value: unknown) => encode(value, encodeParam) : encodeParam;
+
+  return flattenParams(params, options)
+    .map(([name, value]) => `${encodeComponent(name)}=${encodeComponent(value)}`)
+    .join('&');
+}
+
+/**
+ * Append `config.params` to `url`, dropping any hash and keeping the params
+ * already in the URL, like axios' `buildURL`
+ */
+export function appendParams(url: string, config: InternalAxiosRequestConfig): string {
+  if (!config.params) return url;
+
+  const query = serializeParams(config.params, config.paramsSerializer);
+  if (!query) return url;
+
+  const hashIndex = url.indexOf('#');
+  const base = hashIndex === -1 ? url : url.slice(0, hashIndex);
+  return `${base}${base.includes('?') ? '&' : '?'}${query}`;
+}
@@ -0,0 +1,103 @@
+import type { APIResponse } from '@playwright/test';
+import type { AxiosProgressEvent } from 'axios';
+import type { PlaywrightFetchOptions } from '../types';
+import { encodeForm } from './form';
+import { getMultipartEntries, isFilePayload } from './multipart';
+
+type ProgressDirection = 'upload' | 'download';
+
+/**
+ * Get the size in bytes of the body Playwright will send
+ *
+ * Multipart bodies are measured by their field and file payloads,
+ * excluding the boundary framing Playwright adds.
+ */
+export function getRequestBodySize(options: PlaywrightFetchOptions): number | undefined {
+  const { data, form, multipart } = options;
+
+  if (multipart !== undefined) {
+    let size = 0;
+    for (const [, value] of getMultipartEntries(multipart)) {
+      if (isFilePayload(value)) {
+        size += value.buffer.length;
+      } else if (value instanceof File) {
+        size += value.size;
+      } else if (typeof value === 'string') {
+        size += Buffer.byteLength(value);
+      } else if (typeof value === 'number' || typeof value === 'boolean') {
+        size += Buffer.byteLength(String(value));
+      } else {
+        return undefined;
+      }
+    }
+    return size;
+  }
+
+  if (form !== undefined) {
+    return Buffer.byteLength(encodeForm(form));
+  }
+
+  if (data === undefined || data === null) return undefined;
+
+  if (typeof data === 'string') return Buffer.byteLength(data);
+  if (Buffer.isBuffer(data)) return data.length;
+  if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) return data.byteLength;
+
+  try {
+    return Buffer.byteLength(JSON.stringify(data));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Get the declared response size from the content-length header
+ */
+export function getResponseContentLength(response: APIResponse): number | undefined {
+  const length = Number(response.headers()['content-length']);
+  return Number.isFinite(length) && length >= 0 ? length : undefined;
+}
+
+/**
+ * Create an axios progress event
+ */
+export function createProgressEvent(
+  direction: ProgressDirection,
+  loaded: number,
+  total: number | undefined,
+  bytes: number
+): AxiosProgressEvent {
+  const lengthComputable = total !== undefined && total > 0;
+
+  return {
+    loaded,
+    total,
+    progress: lengthComputable ? Math.min(loaded / total, 1) : undefined,
+    bytes,
+    [direction]: true,
+    lengthComputable,
+  };
+}
+
+/**
+ * Emit the start and completion events for one direction of a transfer
+ *
+ * Playwright does not report intermediate progress, so only the two
+ * boundary events are emitted.
+ */
+export function emitProgressStart(
+  listener: ((event: AxiosProgressEvent) => void) | undefined,
+  direction: ProgressDirection,
+  total: number | undefined
+): void {
+  listener?.(createProgressEvent(direction, 0, total, 0));
+}
+
+export function emitProgressComplete(
+  listener: ((event: AxiosProgressEvent) => void) | undefined,
+  direction: ProgressDirection,
+  loaded: number,
+  total: number | undefined
+): void {
+  listener?.(createProgressEvent(direction, loaded, total ?? loaded, loaded));
+}
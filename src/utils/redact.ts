@@ -0,0 +1,196 @@
+import type { ExchangeRecord, RedactionOptions } from '../types';
+
+/**
+ * Header names that are always redacted
+ */
+export const DEFAULT_REDACTED_HEADERS = ['authorization', 'cookie', 'set-cookie', 'x-api-key'];
+
+const DEFAULT_REPLACEMENT = '[REDACTED]';
+
+function parsePath(path: string): string[] {
+  return path
+    .replace(/^\$\.?/, '')
+    .replace(/\[(\*|\d+)\]/g, '.$1')
+    .replace(/\[['"]?([^\]'"]+)['"]?\]/g, '.$1')
+    .split('.')
+    .filter(Boolean);
+}
+
+function redactPath(value: unknown, segments: string[], replacement: string): unknown {
+  if (segments.length === 0) return replacement;
+  if (value === null || typeof value !== 'object') return value;
+
+  const [head, ...rest] = segments;
+  const keys = head === '*' ? Object.keys(value) : [head];
+  const copy: Record<string, unknown> | unknown[] = Array.isArray(value) ? [...value] : { ...value };
+
+  for (const key of keys) {
+    if (Object.prototype.hasOwnProperty.call(copy, key)) {
+      (copy as Record<string, unknown>)[key] = redactPath(
+        (copy as Record<string, unknown>)[key],
+        rest,
+        replacement
+      );
+    }
+  }
+
+  return copy;
+}
+
+function redactString(value: string, patterns: RegExp[], replacement: string): string {
+  return patterns.reduce((result, pattern) => {
+    const global = pattern.global ? pattern : new RegExp(pattern.source, `${pattern.flags}g`);
+    return result.replace(global, replacement);
+  }, value);
+}
+
+function redactStrings(value: unknown, patterns: RegExp[], replacement: string): unknown {
+  if (patterns.length === 0) return value;
+  if (typeof value === 'string') return redactString(value, patterns, replacement);
+  if (value === null || typeof value !== 'object') return value;
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redactStrings(item, patterns, replacement));
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = redactStrings(item, patterns, replacement);
+  }
+  return result;
+}
+
+function matchesPath(segments: string[], path: string[]): boolean {
+  return (
+    segments.length === path.length &&
+    path.every((segment, index) => segment === '*' || segment === segments[index])
+  );
+}
+
+function decodeQueryComponent(component: string): string {
+  try {
+    return decodeURIComponent(component.replace(/\+/g, ' '));
+  } catch {
+    return component;
+  }
+}
+
+/**
+ * Redact query parameters named by a JSON path (`api_key`, `filter[token]`, `ids[*]`),
+ * keeping the rest of the URL as it was encoded
+ */
+function redactQuery(url: string, options: RedactionOptions): string {
+  const paths = (options.jsonPaths ?? []).map(parsePath);
+  const queryStart = url.indexOf('?');
+  if (paths.length === 0 || queryStart === -1) return url;
+
+  const replacement = options.replacement ?? DEFAULT_REPLACEMENT;
+  const hashStart = url.indexOf('#', queryStart);
+  const queryEnd = hashStart === -1 ? url.length : hashStart;
+  const query = url
+    .slice(queryStart + 1, queryEnd)
+    .split('&')
+    .map((pair) => {
+      const separator = pair.indexOf('=');
+      const name = separator === -1 ? pair : pair.slice(0, separator);
+      const segments = parsePath(decodeQueryComponent(name).replace(/\[\]$/, ''));
+      return paths.some((path) => matchesPath(segments, path)) ? `${name}=${replacement}` : pair;
+    })
+    .join('&');
+
+  return `${url.slice(0, queryStart + 1)}${query}${url.slice(queryEnd)}`;
+}
+
+/**
+ * Redact the query parameters named by JSON paths, then pattern matches, in a URL
+ */
+export function redactUrl(url: string, options: RedactionOptions = {}): string {
+  return redactString(
+    redactQuery(url, options),
+    options.patterns ?? [],
+    options.replacement ?? DEFAULT_REPLACEMENT
+  );
+}
+
+/**
+ * Replace the values of sensitive headers and pattern matches in the others
+ */
+export function redactHeaders(
+  headers: Record<string, string> | undefined,
+  options: RedactionOptions = {}
+): Record<string, string> {
+  const replacement = options.replacement ?? DEFAULT_REPLACEMENT;
+  const names = new Set(
+    [...DEFAULT_REDACTED_HEADERS, ...(options.headers ?? [])].map((name) => name.toLowerCase())
+  );
+  const result: Record<string, string> = {};
+
+  for (const [key, value] of Object.entries(headers ?? {})) {
+    result[key] = names.has(key.toLowerCase())
+      ? replacement
+      : redactString(value, options.patterns ?? [], replacement);
+  }
+
+  return result;
+}
+
+/**
+ * Redact JSON paths and patterns in a body
+ *
+ * String bodies holding JSON are parsed, redacted and serialized back.
+ */
+export function redactBody(body: unknown, options: RedactionOptions = {}): unknown {
+  const replacement = options.replacement ?? DEFAULT_REPLACEMENT;
+  const paths = (options.jsonPaths ?? []).map(parsePath);
+  const patterns = options.patterns ?? [];
+
+  if (typeof body === 'string') {
+    if (paths.length > 0) {
+      try {
+        const parsed: unknown = JSON.parse(body);
+        if (parsed !== null && typeof parsed === 'object') {
+          return JSON.stringify(redactBody(parsed, options));
+        }
+      } catch {
+        // Not JSON, only patterns apply
+      }
+    }
+    return redactString(body, patterns, replacement);
+  }
+
+  const redacted = paths.reduce((value, path) => redactPath(value, path, replacement), body);
+  return redactStrings(redacted, patterns, replacement);
+}
+
+/**
+ * Apply a redaction policy to an exchange record
+ */
+export function redactExchange(record: ExchangeRecord, options: RedactionOptions = {}): ExchangeRecord {
+  const replacement = options.replacement ?? DEFAULT_REPLACEMENT;
+  const patterns = options.patterns ?? [];
+
+  const redacted: ExchangeRecord = {
+    ...record,
+    url: redactUrl(record.url, options),
+    request: {
+      ...record.request,
+      headers: redactHeaders(record.request.headers, options),
+      params: redactBody(record.request.params, options),
+      body: redactBody(record.request.body, options),
+    },
+  };
+
+  if (record.response) {
+    redacted.response = {
+      ...record.response,
+      headers: redactHeaders(record.response.headers, options),
+      body: redactBody(record.response.body, options),
+    };
+  }
+
+  if (record.error !== undefined) {
+    redacted.error = redactString(record.error, patterns, replacement);
+  }
+
+  return options.redact ? options.redact(redacted) : redacted;
+}
@@ -0,0 +1,196 @@
+import type { TestInfo } from '@playwright/test';
+import { Readable } from 'node:stream';
+import type {
+  AttachToTestInfoOptions,
+  ExchangeRecord,
+  PlaywrightDiagnosticsOptions,
+  PlaywrightFetchOptions,
+  PlaywrightRequest,
+  RedactionOptions,
+} from '../types';
+import { getFormEntries, groupFields } from './form';
+import { getMultipartEntries, isFilePayload } from './multipart';
+import { redactExchange } from './redact';
+import { isTextContentType } from './shared';
+
+const DEFAULT_MAX_BODY_LENGTH = 10_000;
+
+/**
+ * The response side of an exchange, before it is made report-safe
+ */
+export interface ExchangeResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+function truncate(text: string, maxLength: number): string {
+  if (text.length <= maxLength) return text;
+  return `${text.slice(0, maxLength)}… [truncated ${text.length - maxLength} chars]`;
+}
+
+function getHeader(headers: Record<string, string>, name: string): string | undefined {
+  const entry = Object.entries(headers).find(([key]) => key.toLowerCase() === name);
+  return entry?.[1];
+}
+
+/**
+ * Describe a body in a JSON-safe, size-limited form
+ */
+export function describeBody(
+  body: unknown,
+  contentType: string | undefined,
+  maxLength = DEFAULT_MAX_BODY_LENGTH
+): unknown {
+  if (body === undefined || body === null) return undefined;
+
+  if (typeof body === 'string') return truncate(body, maxLength);
+
+  if (Buffer.isBuffer(body) || body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+    const buffer = Buffer.isBuffer(body)
+      ? body
+      : body instanceof ArrayBuffer
+        ? Buffer.from(body)
+        : Buffer.from(body.buffer, body.byteOffset, body.byteLength);
+
+    if (contentType && isTextContentType(contentType)) {
+      return truncate(buffer.toString('utf8'), maxLength);
+    }
+    return `[binary ${buffer.length} bytes]`;
+  }
+
+  if (body instanceof Blob) return `[blob ${body.size} bytes]`;
+  if (body instanceof Readable || body instanceof ReadableStream) return '[stream]';
+
+  try {
+    const json = JSON.stringify(body);
+    return json.length <= maxLength ? body : truncate(json, maxLength);
+  } catch {
+    return truncate(String(body), maxLength);
+  }
+}
+
+/**
+ * Describe the body Playwright sends for a request
+ */
+export function describeRequestBody(
+  options: PlaywrightFetchOptions,
+  maxLength = DEFAULT_MAX_BODY_LENGTH
+): unknown {
+  if (options.form !== undefined) return groupFields(getFormEntries(options.form));
+
+  if (options.multipart !== undefined) {
+    return groupFields(
+      getMultipartEntries(options.multipart).map(([key, value]): [string, string] => [
+        key,
+        isFilePayload(value)
+          ? `[file ${value.name} (${value.mimeType}, ${value.buffer.length} bytes)]`
+          : value instanceof File
+            ? `[file ${value.name} (${value.type}, ${value.size} bytes)]`
+            : typeof value === 'object'
+              ? '[stream]'
+              : truncate(String(value), maxLength),
+      ])
+    );
+  }
+
+  const contentType = getHeader(options.headers ?? {}, 'content-type');
+  return describeBody(options.data, contentType, maxLength);
+}
+
+/**
+ * Build the report record for one exchange
+ *
+ * Bodies are redacted before they are truncated, so JSON paths still
+ * match in bodies that end up cut short.
+ */
+export function createExchangeRecord(
+  request: PlaywrightRequest,
+  startedAt: number,
+  outcome: { response?: ExchangeResponse; error?: unknown },
+  options: { maxBodyLength?: number; redaction?: RedactionOptions } = {}
+): ExchangeRecord {
+  const { url, options: requestOptions } = request;
+  const maxLength = options.maxBodyLength ?? DEFAULT_MAX_BODY_LENGTH;
+  const record: ExchangeRecord = {
+    method: requestOptions.method ?? 'GET',
+    url,
+    startedAt: new Date(startedAt).toISOString(),
+    durationMs: Date.now() - startedAt,
+    request: {
+      headers: { ...requestOptions.headers },
+      params: requestOptions.params,
+      body: describeRequestBody(requestOptions, Infinity),
+    },
+  };
+
+  if (outcome.response) {
+    const { status, statusText, headers, body } = outcome.response;
+    record.response = {
+      status,
+      statusText,
+      headers: { ...headers },
+      body: describeBody(body, getHeader(headers, 'content-type'), Infinity),
+    };
+  }
+
+  if (outcome.error !== undefined) {
+    record.error = outcome.error instanceof Error ? outcome.error.message : String(outcome.error);
+  }
+
+  const redacted = redactExchange(record, options.redaction);
+  redacted.request.body = describeBody(redacted.request.body, undefined, maxLength);
+  if (redacted.response) {
+    redacted.response.body = describeBody(redacted.response.body, undefined, maxLength);
+  }
+
+  return redacted;
+}
+
+/**
+ * Resolve the TestInfo of the running test, if any
+ */
+async function resolveTestInfo(options: AttachToTestInfoOptions): Promise<TestInfo | undefined> {
+  if (options.testInfo) return options.testInfo;
+
+  try {
+    const { test } = await import('@playwright/test');
+    return test.info();
+  } catch {
+    // Not running inside a Playwright test
+    return undefined;
+  }
+}
+
+/**
+ * Attach an exchange to the test report when `attachToTestInfo` is enabled
+ */
+export async function attachExchange(
+  diagnostics: PlaywrightDiagnosticsOptions | undefined,
+  request: PlaywrightRequest,
+  startedAt: number,
+  outcome: { response?: ExchangeResponse; error?: unknown }
+): Promise<void> {
+  const { attachToTestInfo, redaction } = diagnostics ?? {};
+  if (!attachToTestInfo) return;
+
+  const options = attachToTestInfo === true ? {} : attachToTestInfo;
+  const testInfo = await resolveTestInfo(options);
+  if (!testInfo) return;
+
+  const record = createExchangeRecord(request, startedAt, outcome, {
+    maxBodyLength: options.maxBodyLength,
+    redaction,
+  });
+  const status = record.response ? record.response.status : 'failed';
+
+  try {
+    await testInfo.attach(`${record.method} ${record.url} → ${status}`, {
+      body: JSON.stringify(record, null, 2),
+      contentType: 'application/json',
+    });
+  } catch {
+    // Reporting must never fail the request
+  }
+}
@@ -1,15 +1,23 @@
 import type { InternalAxiosRequestConfig } from 'axios';
-import type { PlaywrightAdapterOptions, PlaywrightFetchOptions } from '../types';
+import type {
+  PlaywrightAdapterOptions,
+  PlaywrightFetchOptions,
+  PlaywrightRequest,
+  PlaywrightSentRequest,
+} from '../types';
+import { toForm } from './form';
+import { isFormDataStream, readFormDataStream, toMultipart } from './multipart';
+import { appendParams, flattenParams } from './params';
 import { isAbsoluteURL, combineURLs } from './shared';
 
+/**
+ * Build the request URL from `baseURL`, `url` and `params`, serialized like axios
+ */
 export function buildUrl(config: InternalAxiosRequestConfig): string {
   const url = config.url || '';
+  const fullUrl = config.baseURL && !isAbsoluteURL(url) ? combineURLs(config.baseURL, url) : url;
 
-  if (config.baseURL && !isAbsoluteURL(url)) {
-    return combineURLs(config.baseURL, url);
-  }
-
-  return url;
+  return appendParams(fullUrl, config);
 }
 
 export function transformHeaders(
@@ -30,31 +38,16 @@ export function transformHeaders(
     }
   }
 
-  return headers;
-}
-
-export function transformParams(
-  config: InternalAxiosRequestConfig
-): Record<string, string | number | boolean> | undefined {
-  if (!config.params) return undefined;
-
-  if (config.params instanceof URLSearchParams) {
-    return Object.fromEntries(config.params);
-  }
-
-  const params: Record<string, string | number | boolean> = {};
-
-  for (const [key, value] of Object.entries(config.params)) {
-    if (value !== undefined && value !== null) {
-      if (typeof value === 'boolean' || typeof value === 'number') {
-        params[key] = value;
-      } else {
-        params[key] = String(value);
-      }
+  // Like axios' http adapter, `auth` replaces any Authorization header
+  if (config.auth) {
+    for (const key of Object.keys(headers)) {
+      if (key.toLowerCase() === 'authorization') delete headers[key];
     }
+    const { username = '', password = '' } = config.auth;
+    headers.Authorization = `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
   }
 
-  return Object.keys(params).length > 0 ? params : undefined;
+  return headers;
 }
 
 function getContentType(config: InternalAxiosRequestConfig): string | undefined {
@@ -70,9 +63,9 @@ function isURLSearchParams(data: unknown): data is URLSearchParams {
   return typeof URLSearchParams !== 'undefined' && data instanceof URLSearchParams;
 }
 
-export function transformData(
+export async function transformData(
   config: InternalAxiosRequestConfig
-): Pick<PlaywrightFetchOptions, 'data' | 'form' | 'multipart'> {
+): Promise<Pick<PlaywrightFetchOptions, 'data' | 'form' | 'multipart'>> {
   const data = config.data;
 
   if (data === undefined || data === null) {
@@ -81,62 +74,72 @@ export function transformData(
 
   const contentType = getContentType(config);
 
+  // axios' default transformRequest has already encoded a multipart object
+  if (isFormDataStream(data)) {
+    return { data: await readFormDataStream(data) };
+  }
+
   if (isFormData(data)) {
-    const multipart: NonNullable<PlaywrightFetchOptions['multipart']> = {};
-    data.forEach((value, key) => {
-      if (value instanceof Blob) {
-        multipart[key] = {
-          name: value instanceof File ? value.name : 'blob',
-          mimeType: value.type,
-          buffer: value as unknown as Buffer,
-        };
-      } else {
-        multipart[key] = value as string;
-      }
-    });
-    return { multipart };
+    return { multipart: await toMultipart(data.entries()) };
   }
 
   if (isURLSearchParams(data)) {
-    return { form: Object.fromEntries(data) };
+    return { form: toForm(data.entries()) };
   }
 
   if (contentType?.includes('application/x-www-form-urlencoded')) {
     if (typeof data === 'string') {
-      return { form: Object.fromEntries(new URLSearchParams(data)) };
+      return { form: toForm(new URLSearchParams(data).entries()) };
     }
-    if (typeof data === 'object') {
-      const form: Record<string, string | number | boolean> = {};
-      for (const [key, value] of Object.entries(data as Record<string, unknown>)) {
-        if (value !== undefined && value !== null) {
-          form[key] =
-            typeof value === 'boolean' || typeof value === 'number'
-              ? value
-              : String(value);
-        }
-      }
-      return { form };
+    // Arrays and nested objects are flattened like axios' `toURLEncodedForm`
+    if (typeof data === 'object' && !Buffer.isBuffer(data)) {
+      return { form: toForm(flattenParams(data, config.formSerializer)) };
     }
   }
 
   if (contentType?.includes('multipart/form-data')) {
     if (typeof data === 'object' && !Buffer.isBuffer(data)) {
-      return { multipart: data as NonNullable<PlaywrightFetchOptions['multipart']> };
+      return { multipart: await toMultipart(Object.entries(data)) };
     }
   }
 
   return { data };
 }
 
-export function transformRequest(
+/**
+ * Fix the content type of multipart bodies, like axios' http and xhr adapters
+ *
+ * axios defaults POST, PUT and PATCH to `application/x-www-form-urlencoded`,
+ * and a `multipart/form-data` header set by hand has no boundary. Without a
+ * content type, Playwright sets `multipart/form-data` with its own boundary;
+ * a `form-data` instance was encoded with its boundary, so that one is sent.
+ */
+function withMultipartContentType(
+  headers: Record<string, string>,
+  config: InternalAxiosRequestConfig,
+  body: Pick<PlaywrightFetchOptions, 'multipart'>
+): Record<string, string> {
+  const formDataStream = isFormDataStream(config.data);
+  if (body.multipart === undefined && !formDataStream) return headers;
+
+  const result = Object.fromEntries(
+    Object.entries(headers).filter(([name]) => name.toLowerCase() !== 'content-type')
+  );
+  if (formDataStream) {
+    result['Content-Type'] = `multipart/form-data; boundary=${config.data.getBoundary()}`;
+  }
+  return result;
+}
+
+export async function transformRequest(
   config: InternalAxiosRequestConfig,
   adapterOptions?: PlaywrightAdapterOptions
-): PlaywrightFetchOptions {
+): Promise<PlaywrightFetchOptions> {
+  const body = await transformData(config);
   const options: PlaywrightFetchOptions = {
     method: config.method?.toUpperCase() || 'GET',
-    headers: transformHeaders(config),
-    params: transformParams(config),
-    ...transformData(config),
+    headers: withMultipartContentType(transformHeaders(config), config, body),
+    ...body,
   };
 
   if (config.timeout && config.timeout > 0) {
@@ -163,3 +166,38 @@ export function transformRequest(
 
   return options;
 }
+
+/**
+ * Get the URL Playwright requests, with `params` merged into the query string
+ */
+export function getRequestUrl(request: PlaywrightRequest): string {
+  const { params } = request.options;
+  if (!params) return request.url;
+
+  const entries: Array<[string, string]> =
+    params instanceof URLSearchParams
+      ? [...params.entries()]
+      : typeof params === 'string'
+        ? [...new URLSearchParams(params).entries()]
+        : Object.entries(params).map(([key, value]) => [key, String(value)] as [string, string]);
+  if (entries.length === 0) return request.url;
+
+  const [base, hash = ''] = request.url.split('#');
+  const query = new URLSearchParams(entries).toString();
+  const separator = base.includes('?') ? '&' : '?';
+  return `${base}${separator}${query}${hash ? `#${hash}` : ''}`;
+}
+
+/**
+ * Describe the sent request for `response.request` and `error.request`
+ */
+export function describeRequest(request: PlaywrightRequest): PlaywrightSentRequest {
+  const { method = 'GET', headers = {}, timeout } = request.options;
+
+  return {
+    method,
+    url: getRequestUrl(request),
+    headers: { ...headers },
+    ...(timeout !== undefined && { timeout }),
+  };
+}
@@ -1,20 +1,88 @@
 import type { APIResponse } from '@playwright/test';
-import type {
-  AxiosResponse,
-  InternalAxiosRequestConfig,
-  RawAxiosResponseHeaders,
-} from 'axios';
+import { AxiosError, AxiosHeaders } from 'axios';
+import type { AxiosResponse, InternalAxiosRequestConfig, TransitionalOptions } from 'axios';
+import type { PlaywrightSentRequest } from '../types';
 import { getStatusText } from './shared';
+import { bufferToReadable } from './stream';
 
 /**
- * Transform Playwright headers to axios headers format
+ * axios' defaults for `config.transitional`
+ */
+const TRANSITIONAL_DEFAULTS: Required<
+  Pick<TransitionalOptions, 'silentJSONParsing' | 'forcedJSONParsing'>
+> = {
+  silentJSONParsing: true,
+  forcedJSONParsing: true,
+};
+
+/**
+ * Build axios response headers from Playwright's `headersArray()`, like axios' http adapter:
+ * lower-cased names, `set-cookie` as an array and other repeated values joined with `, `
  */
 export function transformResponseHeaders(
-  headers: Record<string, string>
-): RawAxiosResponseHeaders {
-  // Playwright returns headers as Record<string, string>
-  // axios expects RawAxiosResponseHeaders which is similar
-  return headers as RawAxiosResponseHeaders;
+  headers: Array<{ name: string; value: string }>
+): AxiosHeaders {
+  const result: Record<string, string | string[]> = {};
+
+  for (const { name, value } of headers) {
+    const key = name.toLowerCase();
+    const previous = result[key];
+    if (key === 'set-cookie') {
+      result[key] = [...((previous as string[] | undefined) ?? []), value];
+    } else {
+      result[key] = previous === undefined ? value : `${previous}, ${value}`;
+    }
+  }
+
+  return new AxiosHeaders(result);
+}
+
+/**
+ * JSON media types, including structured syntax suffixes like `application/problem+json`
+ */
+const JSON_CONTENT_TYPE_REGEX = /^application\/(?:[\w.-]+\+)?json\s*(?:;|$)/i;
+
+export function isJSONContentType(contentType: string): boolean {
+  return JSON_CONTENT_TYPE_REGEX.test(contentType.trim());
+}
+
+/**
+ * Decode a body like axios' http adapter: `responseEncoding` (default utf8), BOM stripped for utf8
+ */
+export function decodeResponseBody(body: Buffer, responseEncoding?: string): string {
+  const encoding = responseEncoding || 'utf8';
+
+  const text = Buffer.isEncoding(encoding)
+    ? body.toString(encoding)
+    : new TextDecoder(encoding as ConstructorParameters<typeof TextDecoder>[0]).decode(body);
+
+  return encoding === 'utf8' && text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+}
+
+/**
+ * Parse a text body as JSON the way axios' default `transformResponse` does
+ *
+ * JSON is parsed when requested with `responseType: 'json'`, or when
+ * `transitional.forcedJSONParsing` is on and the content type is JSON.
+ * A parse failure returns the text, or throws `ERR_BAD_RESPONSE` when JSON
+ * was requested and `transitional.silentJSONParsing` is off.
+ */
+function parseJSONBody(text: string, contentType: string, config: InternalAxiosRequestConfig): unknown {
+  const transitional = { ...TRANSITIONAL_DEFAULTS, ...config.transitional };
+  const jsonRequested = config.responseType === 'json';
+  const shouldParse =
+    jsonRequested || (transitional.forcedJSONParsing && isJSONContentType(contentType));
+
+  if (!text || !shouldParse) return text;
+
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    if (jsonRequested && !transitional.silentJSONParsing) {
+      throw AxiosError.from(error, AxiosError.ERR_BAD_RESPONSE, config);
+    }
+    return text;
+  }
 }
 
 /**
@@ -36,26 +104,21 @@ export async function parseResponseBody(
       const buffer = await response.body();
       return new Blob([buffer], { type: contentType });
 
-    case 'text':
-      return response.text();
-
     case 'stream':
-      // Return the body buffer for stream type
-      // Users can convert to stream if needed
-      return response.body();
+      return bufferToReadable(await response.body());
+
+    case 'text':
+    case 'document':
+      // Like axios' http adapter, documents are returned as text outside browsers
+      return decodeResponseBody(await response.body(), config.responseEncoding);
 
     case 'json':
     default:
-      // Try to parse as JSON, fall back to text
-      if (contentType.includes('application/json')) {
-        try {
-          return await response.json();
-        } catch {
-          return response.text();
-        }
-      }
-      // For non-JSON content types, return text
-      return response.text();
+      return parseJSONBody(
+        decodeResponseBody(await response.body(), config.responseEncoding),
+        contentType,
+        config
+      );
   }
 }
 
@@ -64,7 +127,8 @@ export async function parseResponseBody(
  */
 export async function transformResponse<T = unknown>(
   response: APIResponse,
-  config: InternalAxiosRequestConfig
+  config: InternalAxiosRequestConfig,
+  request?: PlaywrightSentRequest
 ): Promise<AxiosResponse<T>> {
   const data = await parseResponseBody(response, config);
 
@@ -72,8 +136,8 @@ export async function transformResponse<T = unknown>(
     data: data as T,
     status: response.status(),
     statusText: response.statusText() || getStatusText(response.status()),
-    headers: transformResponseHeaders(response.headers()),
+    headers: transformResponseHeaders(response.headersArray()),
     config,
-    request: response, // Store the Playwright response as the request object
+    request,
   };
 }
@@ -0,0 +1,157 @@
+import type { APIResponse } from '@playwright/test';
+import type { PlaywrightRequest, PlaywrightRetryOptions, RetryOptions } from '../types';
+import type { CancelSubscriber } from './cancel';
+
+const DEFAULT_RETRIES = 3;
+const DEFAULT_STATUS_CODES = [408, 429, 500, 502, 503, 504];
+const DEFAULT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE', 'TRACE'];
+const DEFAULT_IDEMPOTENCY_KEY_HEADER = 'idempotency-key';
+const DEFAULT_BASE_DELAY = 100;
+const DEFAULT_MAX_DELAY = 10000;
+
+type ResolvedRetryOptions = Required<Omit<RetryOptions, 'maxElapsedTime' | 'onRetry'>> &
+  Pick<RetryOptions, 'maxElapsedTime' | 'onRetry'>;
+
+/**
+ * Fill in the defaults of a retry policy, or return undefined when retries are off
+ */
+export function resolveRetryOptions(
+  retry: PlaywrightRetryOptions['retry']
+): ResolvedRetryOptions | undefined {
+  if (retry === undefined) return undefined;
+
+  const options = typeof retry === 'number' ? { retries: retry } : retry;
+  const retries = options.retries ?? DEFAULT_RETRIES;
+  if (retries <= 0) return undefined;
+
+  return {
+    retries,
+    statusCodes: options.statusCodes ?? DEFAULT_STATUS_CODES,
+    methods: (options.methods ?? DEFAULT_METHODS).map((method) => method.toUpperCase()),
+    idempotencyKeyHeader: options.idempotencyKeyHeader ?? DEFAULT_IDEMPOTENCY_KEY_HEADER,
+    retryOnNetworkError: options.retryOnNetworkError ?? true,
+    baseDelay: options.baseDelay ?? DEFAULT_BASE_DELAY,
+    maxDelay: options.maxDelay ?? DEFAULT_MAX_DELAY,
+    jitter: options.jitter ?? true,
+    respectRetryAfter: options.respectRetryAfter ?? true,
+    maxElapsedTime: options.maxElapsedTime,
+    onRetry: options.onRetry,
+  };
+}
+
+/**
+ * Whether the method is retryable, or the request carries an idempotency key
+ */
+export function isRetryableRequest(
+  request: PlaywrightRequest,
+  options: Pick<ResolvedRetryOptions, 'methods' | 'idempotencyKeyHeader'>
+): boolean {
+  const method = (request.options.method ?? 'GET').toUpperCase();
+  if (options.methods.includes(method)) return true;
+
+  const { idempotencyKeyHeader } = options;
+  if (!idempotencyKeyHeader) return false;
+
+  return Object.keys(request.options.headers ?? {}).some(
+    (name) => name.toLowerCase() === idempotencyKeyHeader.toLowerCase()
+  );
+}
+
+/**
+ * Parse a `Retry-After` header (delay in seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | undefined, now: number = Date.now()): number | undefined {
+  if (!value) return undefined;
+
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Number(trimmed) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Exponential backoff for the given retry (starting at 1), with optional full jitter
+ */
+export function getBackoffDelay(
+  attempt: number,
+  options: Pick<ResolvedRetryOptions, 'baseDelay' | 'maxDelay' | 'jitter'>
+): number {
+  const delay = Math.min(options.baseDelay * 2 ** (attempt - 1), options.maxDelay);
+  return options.jitter ? Math.round(Math.random() * delay) : delay;
+}
+
+/**
+ * Wait for `ms`, rejecting early if the request is canceled
+ */
+function sleep(ms: number, subscribeCancel?: CancelSubscriber): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let unsubscribe: (() => void) | undefined;
+    const timer = setTimeout(() => {
+      unsubscribe?.();
+      resolve();
+    }, ms);
+
+    unsubscribe = subscribeCancel?.((reason) => {
+      clearTimeout(timer);
+      reject(reason);
+    });
+  });
+}
+
+/**
+ * Run `send` until it yields a non-retryable result or the policy gives up
+ *
+ * The last response is returned and the last error rethrown once retries
+ * are exhausted. Retried responses are disposed.
+ */
+export async function retryRequest(
+  send: () => Promise<APIResponse>,
+  request: PlaywrightRequest,
+  retry: PlaywrightRetryOptions['retry'],
+  subscribeCancel?: CancelSubscriber
+): Promise<APIResponse> {
+  const options = resolveRetryOptions(retry);
+  if (!options || !isRetryableRequest(request, options)) {
+    return send();
+  }
+
+  const startedAt = Date.now();
+
+  for (let attempt = 1; ; attempt++) {
+    let response: APIResponse | undefined;
+    let error: unknown;
+    try {
+      response = await send();
+    } catch (caught) {
+      error = caught;
+    }
+
+    const retryable = response
+      ? options.statusCodes.includes(response.status())
+      : options.retryOnNetworkError;
+    if (!retryable || attempt > options.retries) {
+      if (response) return response;
+      throw error;
+    }
+
+    const retryAfter = options.respectRetryAfter
+      ? parseRetryAfter(response?.headers()['retry-after'])
+      : undefined;
+    const delay = Math.min(retryAfter ?? getBackoffDelay(attempt, options), options.maxDelay);
+
+    if (
+      options.maxElapsedTime !== undefined &&
+      Date.now() + delay - startedAt > options.maxElapsedTime
+    ) {
+      if (response) return response;
+      throw error;
+    }
+
+    await response?.dispose().catch(() => undefined);
+    await options.onRetry?.({ attempt, delay, request, response, error });
+    await sleep(delay, subscribeCancel);
+  }
+}
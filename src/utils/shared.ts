@@ -11,6 +11,15 @@ export function isAbsoluteURL(url: string): boolean {
   return ABSOLUTE_URL_REGEX.test(url);
 }
 
+const TEXT_CONTENT_TYPE_REGEX = /^text\/|[/+](json|xml|javascript)\b|x-www-form-urlencoded/i;
+
+/**
+ * Check if a content type holds readable text (text/*, JSON, XML, JavaScript or urlencoded forms)
+ */
+export function isTextContentType(contentType: string): boolean {
+  return TEXT_CONTENT_TYPE_REGEX.test(contentType);
+}
+
 /**
  * Combine base URL with relative URL
  */
@@ -0,0 +1,43 @@
+import { Readable } from 'node:stream';
+
+/**
+ * Chunk size used when exposing a buffered body as a stream
+ */
+export const STREAM_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Split a buffer into chunks of at most `STREAM_CHUNK_SIZE` bytes
+ */
+function* chunkBuffer(buffer: Buffer): Generator<Buffer> {
+  for (let offset = 0; offset < buffer.length; offset += STREAM_CHUNK_SIZE) {
+    yield buffer.subarray(offset, offset + STREAM_CHUNK_SIZE);
+  }
+}
+
+/**
+ * Expose a buffered body as a Node Readable
+ *
+ * Playwright buffers the whole response, so the stream replays that buffer
+ * in chunks rather than reading from the socket.
+ */
+export function bufferToReadable(buffer: Buffer): Readable {
+  return Readable.from(chunkBuffer(buffer), { objectMode: false });
+}
+
+/**
+ * Expose a buffered body as a web ReadableStream
+ */
+export function bufferToReadableStream(buffer: Buffer): ReadableStream<Uint8Array> {
+  const chunks = chunkBuffer(buffer);
+
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const { value, done } = chunks.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(new Uint8Array(value));
+      }
+    },
+  });
+}
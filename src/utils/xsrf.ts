@@ -0,0 +1,76 @@
+import type { InternalAxiosRequestConfig } from 'axios';
+import { cookieMatches, type ContextCookies } from '../cookie-jar';
+import type { CookieJar, PlaywrightCookie, PlaywrightRequest } from '../types';
+import { getRequestUrl } from './request';
+
+const HTTP_URL_REGEX = /^https?:\/\//i;
+
+/**
+ * Whether the request goes to the origin the client targets
+ *
+ * Relative URLs resolve against the request context's `baseURL`, so they
+ * count as same-origin, as do absolute URLs on the origin of `config.baseURL`.
+ */
+export function isSameOrigin(url: string, baseURL: string | undefined): boolean {
+  if (!HTTP_URL_REGEX.test(url)) return true;
+  if (!baseURL || !HTTP_URL_REGEX.test(baseURL)) return false;
+
+  return new URL(url).origin === new URL(baseURL).origin;
+}
+
+/**
+ * Read a cookie the request would carry, decoded like axios' browser cookie helper
+ *
+ * Absolute URLs only see cookies matching them; relative URLs see every
+ * cookie of the context, as they target its `baseURL`. Jar cookies win.
+ */
+function readCookie(name: string, url: string, cookies: PlaywrightCookie[]): string | undefined {
+  const target = HTTP_URL_REGEX.test(url) ? new URL(url) : undefined;
+  const cookie = cookies
+    .filter((candidate) => candidate.name === name && (!target || cookieMatches(candidate, target)))
+    .pop();
+  if (!cookie) return undefined;
+
+  try {
+    return decodeURIComponent(cookie.value);
+  } catch {
+    return cookie.value;
+  }
+}
+
+/**
+ * Copy the XSRF cookie into the XSRF header, like axios' browser adapters
+ *
+ * Follows `withXSRFToken`: `true` sends the header to any origin, `false`
+ * never, and by default only to same-origin requests. An existing header
+ * is replaced, as axios does.
+ */
+export async function applyXSRFToken(
+  contextCookies: ContextCookies,
+  request: PlaywrightRequest,
+  config: InternalAxiosRequestConfig,
+  cookieJar?: CookieJar
+): Promise<void> {
+  const { xsrfCookieName, xsrfHeaderName } = config;
+  if (!xsrfCookieName || !xsrfHeaderName) return;
+
+  const { withXSRFToken: option } = config;
+  const withXSRFToken = typeof option === 'function' ? option(config) : option;
+  const url = getRequestUrl(request);
+  if (!withXSRFToken && (withXSRFToken === false || !isSameOrigin(url, config.baseURL))) return;
+
+  const cookies = await contextCookies.read();
+  if (cookieJar) {
+    cookies.push(...(HTTP_URL_REGEX.test(url) ? cookieJar.cookies(url) : cookieJar.cookies()));
+  }
+
+  const value = readCookie(xsrfCookieName, url, cookies);
+  if (!value) return;
+
+  const headers = { ...request.options.headers };
+  for (const name of Object.keys(headers)) {
+    if (name.toLowerCase() === xsrfHeaderName.toLowerCase()) delete headers[name];
+  }
+  headers[xsrfHeaderName] = value;
+  request.options.headers = headers;
+}
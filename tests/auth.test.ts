@@ -0,0 +1,369 @@
+import { describe, expect, it } from 'bun:test';
+import axios from 'axios';
+import type { APIRequestContext } from '@playwright/test';
+import { createBearerAuth, createClientCredentialsAuth, createTokenRefreshAuth } from '../src/auth';
+import { createPlaywrightAdapter } from '../src/axios-adapter';
+import { createPlaywrightFetch } from '../src/fetch-adapter';
+import { createMockPlaywrightContext } from '../src/mock';
+import type { PlaywrightFetchOptions, PlaywrightRequest } from '../src/types';
+import { createAPIResponse } from '../src/utils/api-response';
+
+function getAuthorization({ options }: PlaywrightRequest): string | undefined {
+  const headers = options.headers ?? {};
+  const name = Object.keys(headers).find((key) => key.toLowerCase() === 'authorization');
+  return name && headers[name];
+}
+
+/**
+ * Request context answering 401 unless the request carries `accepted` credentials
+ */
+function createProtectedContext(accepted: () => string, delay: (url: string) => number = () => 0) {
+  const requests: PlaywrightRequest[] = [];
+  const context = {
+    requests,
+    async fetch(url: string, options: PlaywrightFetchOptions = {}) {
+      requests.push({ url, options });
+      const authorization = getAuthorization({ url, options });
+      await new Promise((resolve) => setTimeout(resolve, delay(url)));
+      return createAPIResponse({
+        url,
+        status: authorization === accepted() ? 200 : 401,
+        body: authorization ?? '',
+      });
+    },
+  };
+  return context as typeof context & APIRequestContext;
+}
+
+describe('createBearerAuth', () => {
+  it('should send a static token', async () => {
+    const context = createMockPlaywrightContext([{ path: '/me', body: 'ok' }]);
+    const client = axios.create({
+      adapter: createPlaywrightAdapter(context, { auth: createBearerAuth('abc') }),
+    });
+
+    await client.get('https://api.example.com/me');
+
+    expect(getAuthorization(context.requests[0])).toBe('Bearer abc');
+  });
+
+  it('should call a token function for each request', async () => {
+    const context = createMockPlaywrightContext([{ path: '/me', body: 'ok' }]);
+    let calls = 0;
+    const fetch = createPlaywrightFetch(context, {
+      auth: createBearerAuth(async () => `token-${++calls}`),
+    });
+
+    await fetch('https://api.example.com/me');
+    await fetch('https://api.example.com/me');
+
+    expect(context.requests.map(getAuthorization)).toEqual([
+      'Bearer token-1',
+      'Bearer token-2',
+    ]);
+  });
+
+  it('should leave requests with their own Authorization header alone', async () => {
+    const context = createMockPlaywrightContext([{ path: '/me', body: 'ok' }]);
+    const client = axios.create({
+      adapter: createPlaywrightAdapter(context, { auth: createBearerAuth('abc') }),
+    });
+
+    await client.get('https://api.example.com/me', { headers: { Authorization: 'Bearer mine' } });
+    await client.get('https://api.example.com/me', { auth: { username: 'u', password: 'p' } });
+
+    expect(context.requests.map(getAuthorization)).toEqual([
+      'Bearer mine',
+      `Basic ${Buffer.from('u:p').toString('base64')}`,
+    ]);
+  });
+});
+
+describe('createTokenRefreshAuth', () => {
+  it('should refresh the token after a 401 and resend once', async () => {
+    const context = createProtectedContext(() => 'Bearer fresh-1');
+    let refreshes = 0;
+    const client = axios.create({
+      adapter: createPlaywrightAdapter(context, {
+        auth: createTokenRefreshAuth({
+          token: 'stale',
+          refresh: async () => `fresh-${++refreshes}`,
+        }),
+      }),
+    });
+
+    const response = await client.get('https://api.example.com/me');
+
+    expect(response.status).toBe(200);
+    expect(refreshes).toBe(1);
+    expect(context.requests.map(getAuthorization)).toEqual([
+      'Bearer stale',
+      'Bearer fresh-1',
+    ]);
+  });
+
+  it('should resend only once when the refreshed token is rejected too', async () => {
+    const context = createProtectedContext(() => 'never');
+    let refreshes = 0;
+    const fetch = createPlaywrightFetch(context, {
+      auth: createTokenRefreshAuth({ token: 'stale', refresh: () => `fresh-${++refreshes}` }),
+    });
+
+    const response = await fetch('https://api.example.com/me');
+
+    expect(response.status).toBe(401);
+    expect(refreshes).toBe(1);
+    expect(context.requests).toHaveLength(2);
+  });
+
+  it('should fetch the first token lazily', async () => {
+    const context = createProtectedContext(() => 'Bearer first');
+    const fetch = createPlaywrightFetch(context, {
+      auth: createTokenRefreshAuth({ refresh: async () => 'first' }),
+    });
+
+    const response = await fetch('https://api.example.com/me');
+
+    expect(response.status).toBe(200);
+    expect(context.requests).toHaveLength(1);
+  });
+
+  it('should share one refresh between concurrent 401s', async () => {
+    const context = createProtectedContext(() => 'Bearer fresh-1');
+    let refreshes = 0;
+    const client = axios.create({
+      adapter: createPlaywrightAdapter(context, {
+        auth: createTokenRefreshAuth({
+          token: 'stale',
+          refresh: async () => {
+            await new Promise((resolve) => setTimeout(resolve, 10));
+            return `fresh-${++refreshes}`;
+          },
+        }),
+      }),
+    });
+
+    const responses = await Promise.all([
+      client.get('https://api.example.com/a'),
+      client.get('https://api.example.com/b'),
+      client.get('https://api.example.com/c'),
+    ]);
+
+    expect(responses.map((response) => response.status)).toEqual([200, 200, 200]);
+    expect(refreshes).toBe(1);
+  });
+
+  it('should refresh through the request context of the current request', async () => {
+    const auth = createTokenRefreshAuth({
+      token: 'stale',
+      refresh: (requestContext) => (requestContext === second ? 'second' : 'first'),
+    });
+    const first = createProtectedContext(() => 'Bearer first');
+    const second = createProtectedContext(() => 'Bearer second');
+
+    await createPlaywrightFetch(first, { auth })('https://api.example.com/me');
+    const response = await createPlaywrightFetch(second, { auth })('https://api.example.com/me');
+
+    expect(response.status).toBe(200);
+    expect(second.requests.map(getAuthorization)).toEqual(['Bearer first', 'Bearer second']);
+  });
+
+  it('should not refresh again for a late 401 to a token already replaced', async () => {
+    const context = createProtectedContext(
+      () => 'Bearer fresh-1',
+      (url) => (url.endsWith('/slow') ? 30 : 0)
+    );
+    let refreshes = 0;
+    const client = axios.create({
+      adapter: createPlaywrightAdapter(context, {
+        auth: createTokenRefreshAuth({ token: 'stale', refresh: () => `fresh-${++refreshes}` }),
+      }),
+    });
+
+    const responses = await Promise.all([
+      client.get('https://api.example.com/slow'),
+      client.get('https://api.example.com/fast'),
+    ]);
+
+    expect(responses.map((response) => response.status)).toEqual([200, 200]);
+    expect(refreshes).toBe(1);
+  });
+
+  it('should run onRequest on the credentials actually sent, again after a refresh', async () => {
+    const context = createProtectedContext(() => 'Bearer fresh');
+    const seen: Array<string | undefined> = [];
+    const client = axios.create({
+      adapter: createPlaywrightAdapter(context, {
+        auth: createTokenRefreshAuth({ token: 'stale', refresh: () => 'fresh' }),
+        onRequest: (request) => {
+          seen.push(getAuthorization(request));
+        },
+      }),
+    });
+
+    await client.get('https://api.example.com/me');
+
+    expect(seen).toEqual(['Bearer stale', 'Bearer fresh']);
+  });
+
+  it('should not refresh requests with their own Authorization header', async () => {
+    const context = createProtectedContext(() => 'Bearer fresh');
+    let refreshes = 0;
+    const client = axios.create({
+      adapter: createPlaywrightAdapter(context, {
+        auth: createTokenRefreshAuth({ token: 'stale', refresh: () => `fresh-${++refreshes}` }),
+      }),
+      validateStatus: () => true,
+    });
+
+    const response = await client.get('https://api.example.com/me', {
+      headers: { Authorization: 'Bearer mine' },
+    });
+
+    expect(response.status).toBe(401);
+    expect(refreshes).toBe(0);
+  });
+});
+
+describe('createClientCredentialsAuth', () => {
+  function createTokenContext(expiresIn?: number) {
+    let issued = 0;
+    const context = createMockPlaywrightContext([
+      { path: '/me', body: (request) => request.headers.authorization ?? '' },
+      {
+        method: 'POST',
+        path: '/oauth/token',
+        body: () => ({
+          access_token: `token-${++issued}`,
+          token_type: 'bearer',
+          ...(expiresIn !== undefined && { expires_in: expiresIn }),
+        }),
+      },
+    ]);
+    return context;
+  }
+
+  it('should fetch a token with Basic client authentication and cache it', async () => {
+    const context = createTokenContext(3600);
+    const fetch = createPlaywrightFetch(context, {
+      auth: createClientCredentialsAuth({
+        tokenUrl: 'https://auth.example.com/oauth/token',
+        clientId: 'tests',
+        clientSecret: 's3cret',
+        scope: ['users:read', 'users:write'],
+      }),
+    });
+
+    const first = await fetch('https://api.example.com/me');
+    const second = await fetch('https://api.example.com/me');
+
+    expect(await first.text()).toBe('Bearer token-1');
+    expect(await second.text()).toBe('Bearer token-1');
+
+    const [tokenRequest] = context.requests;
+    expect(context.requests).toHaveLength(3);
+    expect(tokenRequest.url).toBe('https://auth.example.com/oauth/token');
+    expect(getAuthorization(tokenRequest)).toBe(
+      `Basic ${Buffer.from('tests:s3cret').toString('base64')}`
+    );
+    expect(tokenRequest.options.form).toEqual({
+      grant_type: 'client_credentials',
+      scope: 'users:read users:write',
+    });
+  });
+
+  it('should fetch tokens through the request context of the current request', async () => {
+    const auth = createClientCredentialsAuth({
+      tokenUrl: 'https://auth.example.com/oauth/token',
+      clientId: 'tests',
+      clientSecret: 's3cret',
+      expirySkew: 60,
+    });
+    const first = createTokenContext(0);
+    const second = createTokenContext(0);
+
+    await createPlaywrightFetch(first, { auth })('https://api.example.com/me');
+    await createPlaywrightFetch(second, { auth })('https://api.example.com/me');
+
+    expect(second.requests.map(({ url }) => url)).toEqual([
+      'https://auth.example.com/oauth/token',
+      'https://api.example.com/me',
+    ]);
+  });
+
+  it('should send client credentials in the body when asked', async () => {
+    const context = createTokenContext();
+    const client = axios.create({
+      adapter: createPlaywrightAdapter(context, {
+        auth: createClientCredentialsAuth({
+          tokenUrl: 'https://auth.example.com/oauth/token',
+          clientId: 'tests',
+          clientSecret: 's3cret',
+          audience: 'https://api.example.com',
+          clientAuthentication: 'body',
+        }),
+      }),
+    });
+
+    await client.get('https://api.example.com/me');
+
+    const [tokenRequest] = context.requests;
+    expect(getAuthorization(tokenRequest)).toBeUndefined();
+    expect(tokenRequest.options.form).toEqual({
+      grant_type: 'client_credentials',
+      audience: 'https://api.example.com',
+      client_id: 'tests',
+      client_secret: 's3cret',
+    });
+  });
+
+  it('should fetch a new token once the cached one expires', async () => {
+    const context = createTokenContext(30);
+    const fetch = createPlaywrightFetch(context, {
+      auth: createClientCredentialsAuth({
+        tokenUrl: 'https://auth.example.com/oauth/token',
+        clientId: 'tests',
+        clientSecret: 's3cret',
+      }),
+    });
+
+    await fetch('https://api.example.com/me');
+    const response = await fetch('https://api.example.com/me');
+
+    expect(await response.text()).toBe('Bearer token-2');
+  });
+
+  it('should fetch one token for concurrent requests', async () => {
+    const context = createTokenContext(3600);
+    const fetch = createPlaywrightFetch(context, {
+      auth: createClientCredentialsAuth({
+        tokenUrl: 'https://auth.example.com/oauth/token',
+        clientId: 'tests',
+        clientSecret: 's3cret',
+      }),
+    });
+
+    await Promise.all([fetch('https://api.example.com/me'), fetch('https://api.example.com/me')]);
+
+    expect(context.requests.filter(({ options }) => options.method === 'POST')).toHaveLength(1);
+  });
+
+  it('should reject when the token endpoint fails', async () => {
+    const context = createMockPlaywrightContext([
+      { method: 'POST', path: '/oauth/token', status: 401, body: 'invalid_client' },
+    ]);
+    const client = axios.create({
+      adapter: createPlaywrightAdapter(context, {
+        auth: createClientCredentialsAuth({
+          tokenUrl: 'https://auth.example.com/oauth/token',
+          clientId: 'tests',
+          clientSecret: 'wrong',
+        }),
+      }),
+    });
+
+    await expect(client.get('https://api.example.com/me')).rejects.toThrow(
+      'Token request to https://auth.example.com/oauth/token failed with status 401: invalid_client'
+    );
+  });
+});
@@ -1,7 +1,11 @@
 import { describe, expect, it, mock } from 'bun:test';
-import { AxiosError, AxiosHeaders, type InternalAxiosRequestConfig } from 'axios';
-import type { APIRequestContext, APIResponse } from '@playwright/test';
+import { mkdtempSync, readFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import axios, { AxiosError, AxiosHeaders, type InternalAxiosRequestConfig } from 'axios';
+import type { APIRequestContext, APIResponse, TestInfo } from '@playwright/test';
 import { createPlaywrightAdapter } from '../src/axios-adapter';
+import { createMockPlaywrightContext } from '../src/mock';
 
 // Helper to create mock axios config
 function createConfig(
@@ -25,8 +29,8 @@ function createMockResponse(options: {
     status = 200,
     statusText = 'OK',
     headers = { 'content-type': 'application/json' },
-    body = Buffer.from('{}'),
     json = {},
+    body = Buffer.from(JSON.stringify(json)),
   } = options;
 
   return {
@@ -117,6 +121,24 @@ describe('createPlaywrightAdapter', () => {
       expect(response.headers['content-type']).toBe('application/json');
       expect(response.config).toBe(config);
     });
+
+    it('should return AxiosHeaders with set-cookie as an array', async () => {
+      const requestContext = createMockRequestContext(async () => ({
+        ...createMockResponse({}),
+        headersArray: () => [
+          { name: 'Content-Type', value: 'application/json' },
+          { name: 'Set-Cookie', value: 'a=1; Path=/' },
+          { name: 'Set-Cookie', value: 'b=2; Path=/' },
+        ],
+      }));
+      const adapter = createPlaywrightAdapter(requestContext);
+
+      const response = await adapter(createConfig({ url: 'https://api.example.com/login' }));
+
+      expect(response.headers).toBeInstanceOf(AxiosHeaders);
+      expect((response.headers as AxiosHeaders).get('Content-Type')).toBe('application/json');
+      expect(response.headers['set-cookie']).toEqual(['a=1; Path=/', 'b=2; Path=/']);
+    });
   });
 
   describe('URL building', () => {
@@ -219,22 +241,28 @@ describe('createPlaywrightAdapter', () => {
       expect(capturedOptions.data).toEqual({ name: 'John', email: 'john@example.com' });
     });
 
-    it('should pass params to Playwright', async () => {
+    it('should serialize params into the URL like axios', async () => {
+      let capturedUrl = '';
       let capturedOptions: Record<string, unknown> = {};
-      const requestContext = createMockRequestContext(async (_, options) => {
+      const requestContext = createMockRequestContext(async (url, options) => {
+        capturedUrl = url;
         capturedOptions = options as Record<string, unknown>;
         return createMockResponse({});
       });
       const adapter = createPlaywrightAdapter(requestContext);
 
       const config = createConfig({
-        url: 'https://api.example.com/users',
-        params: { page: 1, limit: 10 },
+        url: 'https://api.example.com/users?sort=name',
+        params: { page: 1, ids: [1, 2], filter: { role: 'admin' } },
       });
 
       await adapter(config);
 
-      expect(capturedOptions.params).toEqual({ page: 1, limit: 10 });
+      expect(capturedUrl).toBe(
+        'https://api.example.com/users?sort=name&page=1&ids%5B%5D=1&ids%5B%5D=2&filter%5Brole%5D=admin'
+      );
+      expect(capturedUrl).toBe(axios.getUri(config));
+      expect(capturedOptions.params).toBeUndefined();
     });
 
     it('should pass timeout to Playwright', async () => {
@@ -254,6 +282,60 @@ describe('createPlaywrightAdapter', () => {
 
       expect(capturedOptions.timeout).toBe(5000);
     });
+
+    it('should let Playwright set the multipart content type for FormData uploads', async () => {
+      const captured: Array<Record<string, unknown>> = [];
+      const requestContext = createMockRequestContext(async (_, options) => {
+        captured.push(options as Record<string, unknown>);
+        return createMockResponse({});
+      });
+      const client = axios.create({ adapter: createPlaywrightAdapter(requestContext) });
+      const form = new FormData();
+      form.append('name', 'John');
+      form.append('avatar', new File([Buffer.from([1, 2])], 'avatar.png', { type: 'image/png' }));
+
+      await client.post('https://api.example.com/users', form);
+      await client.put('https://api.example.com/users/1', form, {
+        headers: { 'Content-Type': 'multipart/form-data' },
+      });
+
+      for (const options of captured) {
+        const headerNames = Object.keys(options.headers as Record<string, string>);
+        expect(headerNames.map((name) => name.toLowerCase())).not.toContain('content-type');
+        expect(options.multipart).toEqual({
+          name: 'John',
+          avatar: { name: 'avatar.png', mimeType: 'image/png', buffer: Buffer.from([1, 2]) },
+        });
+      }
+      expect(captured).toHaveLength(2);
+    });
+
+    it('should send objects axios encoded as multipart with their boundary', async () => {
+      let capturedOptions: Record<string, unknown> = {};
+      const requestContext = createMockRequestContext(async (_, options) => {
+        capturedOptions = options as Record<string, unknown>;
+        return createMockResponse({});
+      });
+      const client = axios.create({ adapter: createPlaywrightAdapter(requestContext) });
+
+      await client.post(
+        'https://api.example.com/uploads',
+        { name: 'John', 'files[]': [Buffer.from('first'), Buffer.from('second')] },
+        { headers: { 'Content-Type': 'multipart/form-data' } }
+      );
+
+      const headers = capturedOptions.headers as Record<string, string>;
+      const boundary = /^multipart\/form-data; boundary=(.+)$/.exec(headers['Content-Type'])?.[1];
+      const body = (capturedOptions.data as Buffer).toString();
+      expect(boundary).toBeDefined();
+      expect(capturedOptions.multipart).toBeUndefined();
+      expect(body.split(`--${boundary}`)).toHaveLength(5);
+      expect(body).toContain('name="name"\r\n\r\nJohn\r\n');
+      expect(body).toContain('name="files[]"');
+      expect(body).toContain('first');
+      expect(body).toContain('second');
+      expect(body).not.toContain('_boundary');
+    });
   });
 
   describe('adapter options', () => {
@@ -332,6 +414,236 @@ describe('createPlaywrightAdapter', () => {
     });
   });
 
+  describe('hooks', () => {
+    it('should run onRequest and onResponse around the Playwright call', async () => {
+      let capturedOptions: Record<string, unknown> = {};
+      const mockResponse = createMockResponse({ json: { ok: true } });
+      const requestContext = createMockRequestContext(async (_, options) => {
+        capturedOptions = options as Record<string, unknown>;
+        return mockResponse;
+      });
+      const onResponse = mock(() => {});
+      const adapter = createPlaywrightAdapter(requestContext, {
+        onRequest: ({ url, options }) => {
+          options.headers = { ...options.headers, 'X-Request-Url': url };
+        },
+        onResponse,
+      });
+
+      await adapter(createConfig({ url: 'https://api.example.com/users' }));
+
+      expect((capturedOptions.headers as Record<string, string>)['X-Request-Url']).toBe(
+        'https://api.example.com/users'
+      );
+      expect(onResponse.mock.calls[0][0]).toBe(mockResponse);
+    });
+
+    it('should run onError before wrapping the failure', async () => {
+      const requestContext = createMockRequestContext(async () => {
+        throw new Error('Network error');
+      });
+      const onError = mock(() => {});
+      const adapter = createPlaywrightAdapter(requestContext, { onError });
+
+      await expect(adapter(createConfig({ url: 'https://api.example.com/users' }))).rejects.toThrow(
+        'Network error'
+      );
+      expect(onError).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('test report attachments', () => {
+    it('should attach the exchange when attachToTestInfo is set', async () => {
+      const testInfo = { attach: mock(async () => {}) } as unknown as TestInfo;
+      const requestContext = createMockRequestContext(async () =>
+        createMockResponse({ status: 404, json: { error: 'missing' } })
+      );
+      const adapter = createPlaywrightAdapter(requestContext, {
+        attachToTestInfo: { testInfo },
+      });
+
+      const config = createConfig({
+        url: 'https://api.example.com/users/999',
+        validateStatus: (status) => status < 400,
+      });
+
+      await expect(adapter(config)).rejects.toBeInstanceOf(AxiosError);
+
+      expect(testInfo.attach).toHaveBeenCalledTimes(1);
+      const [name, attachment] = (testInfo.attach as ReturnType<typeof mock>).mock.calls[0] as [
+        string,
+        { body: string },
+      ];
+      expect(name).toBe('GET https://api.example.com/users/999 → 404');
+      expect(JSON.parse(attachment.body).response.body).toEqual({ error: 'missing' });
+    });
+
+    it('should redact query params named by jsonPaths', async () => {
+      const testInfo = { attach: mock(async () => {}) } as unknown as TestInfo;
+      const adapter = createPlaywrightAdapter(createMockRequestContext(), {
+        attachToTestInfo: { testInfo },
+        redaction: { jsonPaths: ['api_key'] },
+      });
+
+      await adapter(
+        createConfig({ url: 'https://api.example.com/x', params: { api_key: 'SECRET', q: 1 } })
+      );
+
+      const [name, attachment] = (testInfo.attach as ReturnType<typeof mock>).mock.calls[0] as [
+        string,
+        { body: string },
+      ];
+      expect(name).toBe('GET https://api.example.com/x?api_key=[REDACTED]&q=1 → 200');
+      expect(attachment.body).not.toContain('SECRET');
+    });
+
+    it('should attach network failures', async () => {
+      const testInfo = { attach: mock(async () => {}) } as unknown as TestInfo;
+      const requestContext = createMockRequestContext(async () => {
+        throw new Error('Network error');
+      });
+      const adapter = createPlaywrightAdapter(requestContext, {
+        attachToTestInfo: { testInfo },
+      });
+
+      await expect(adapter(createConfig({ url: 'https://api.example.com/users' }))).rejects.toThrow();
+
+      const [, attachment] = (testInfo.attach as ReturnType<typeof mock>).mock.calls[0] as [
+        string,
+        { body: string },
+      ];
+      expect(JSON.parse(attachment.body).error).toBe('Network error');
+    });
+  });
+
+  describe('record and replay', () => {
+    it('should replay recorded responses without calling Playwright', async () => {
+      const harPath = join(mkdtempSync(join(tmpdir(), 'axios-har-')), 'api.har');
+      const recordContext = createMockRequestContext(async () =>
+        createMockResponse({
+          headers: { 'content-type': 'application/json' },
+          body: '{"id":1,"name":"John"}',
+          json: { id: 1, name: 'John' },
+        })
+      );
+      const recorder = createPlaywrightAdapter(recordContext, { mode: 'record', harPath });
+
+      const config = createConfig({
+        url: 'https://api.example.com/users/1',
+        params: { expand: 'profile' },
+      });
+      await recorder(config);
+
+      const replayContext = createMockRequestContext();
+      const replayer = createPlaywrightAdapter(replayContext, { mode: 'replay', harPath });
+      const response = await replayer(config);
+
+      expect(replayContext.fetch).not.toHaveBeenCalled();
+      expect(response.status).toBe(200);
+      expect(response.data).toEqual({ id: 1, name: 'John' });
+    });
+
+    it('should redact query params in recordings and still replay them', async () => {
+      const harPath = join(mkdtempSync(join(tmpdir(), 'axios-har-')), 'api.har');
+      const redaction = { jsonPaths: ['api_key'] };
+      const recorder = createPlaywrightAdapter(createMockRequestContext(), {
+        mode: 'record',
+        harPath,
+        redaction,
+      });
+
+      const config = createConfig({
+        url: 'https://api.example.com/x',
+        params: { api_key: 'SECRET', q: 1 },
+      });
+      await recorder(config);
+
+      const har = readFileSync(harPath, 'utf8');
+      expect(har).not.toContain('SECRET');
+      expect(JSON.parse(har).log.entries[0].request.queryString).toEqual([
+        { name: 'api_key', value: '[REDACTED]' },
+        { name: 'q', value: '1' },
+      ]);
+
+      const replayer = createPlaywrightAdapter(createMockRequestContext(), {
+        mode: 'replay',
+        harPath,
+        redaction,
+      });
+      const response = await replayer(config);
+      expect(response.data).toEqual({ success: true });
+    });
+
+    it('should fail with ERR_NETWORK when no entry matches', async () => {
+      const harPath = join(mkdtempSync(join(tmpdir(), 'axios-har-')), 'api.har');
+      const recorder = createPlaywrightAdapter(createMockRequestContext(), {
+        mode: 'record',
+        harPath,
+      });
+      await recorder(createConfig({ url: 'https://api.example.com/users' }));
+
+      const replayer = createPlaywrightAdapter(createMockRequestContext(), {
+        mode: 'replay',
+        harPath,
+      });
+
+      try {
+        await replayer(createConfig({ url: 'https://api.example.com/posts' }));
+        expect(true).toBe(false); // Should not reach here
+      } catch (error) {
+        expect((error as AxiosError).code).toBe(AxiosError.ERR_NETWORK);
+        expect((error as AxiosError).message).toContain('GET https://api.example.com/posts');
+      }
+    });
+  });
+
+  describe('retry policy', () => {
+    it('should retry retryable statuses before validating the status', async () => {
+      const context = createMockPlaywrightContext([
+        { path: '/users', body: [] },
+        { path: '/users', status: 503, times: 2 },
+      ]);
+      const onRetry = mock(() => {});
+      const client = axios.create({
+        baseURL: 'https://api.example.com',
+        adapter: createPlaywrightAdapter(context, { retry: { retries: 2, baseDelay: 0, onRetry } }),
+      });
+
+      const response = await client.get('/users');
+
+      expect(response.status).toBe(200);
+      expect(context.requests).toHaveLength(3);
+      expect(onRetry).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject with the last status once retries are exhausted', async () => {
+      const context = createMockPlaywrightContext([{ path: '/users', status: 503 }]);
+      const client = axios.create({
+        baseURL: 'https://api.example.com',
+        adapter: createPlaywrightAdapter(context, { retry: { retries: 1, baseDelay: 0 } }),
+      });
+
+      await expect(client.get('/users')).rejects.toMatchObject({ response: { status: 503 } });
+      expect(context.requests).toHaveLength(2);
+    });
+
+    it('should stop retrying when the request is aborted', async () => {
+      const context = createMockPlaywrightContext([{ path: '/users', status: 503 }]);
+      const controller = new AbortController();
+      const client = axios.create({
+        baseURL: 'https://api.example.com',
+        adapter: createPlaywrightAdapter(context, {
+          retry: { retries: 5, baseDelay: 10000, jitter: false, onRetry: () => controller.abort() },
+        }),
+      });
+
+      await expect(client.get('/users', { signal: controller.signal })).rejects.toMatchObject({
+        code: 'ERR_CANCELED',
+      });
+      expect(context.requests).toHaveLength(1);
+    });
+  });
+
   describe('status validation', () => {
     it('should throw AxiosError when validateStatus returns false', async () => {
       const requestContext = createMockRequestContext(async () =>
@@ -354,6 +666,86 @@ describe('createPlaywrightAdapter', () => {
       }
     });
 
+    it('should use ERR_BAD_RESPONSE for 5xx statuses', async () => {
+      const requestContext = createMockRequestContext(async () =>
+        createMockResponse({ status: 503 })
+      );
+      const adapter = createPlaywrightAdapter(requestContext);
+
+      const config = createConfig({
+        url: 'https://api.example.com/users',
+        validateStatus: (status) => status < 500,
+      });
+
+      try {
+        await adapter(config);
+        expect(true).toBe(false); // Should not reach here
+      } catch (error) {
+        expect((error as AxiosError).code).toBe(AxiosError.ERR_BAD_RESPONSE);
+        expect((error as AxiosError).message).toBe('Request failed with status code 503');
+      }
+    });
+
+    it('should describe the sent request on responses and errors', async () => {
+      const requestContext = createMockRequestContext(async () =>
+        createMockResponse({ status: 404 })
+      );
+      const adapter = createPlaywrightAdapter(requestContext);
+      const headers = new AxiosHeaders({ Accept: 'application/json' });
+      const expected = {
+        method: 'GET',
+        url: 'https://api.example.com/users?page=2',
+        headers: { Accept: 'application/json' },
+        timeout: 1000,
+      };
+
+      const response = await adapter(
+        createConfig({
+          url: 'https://api.example.com/users',
+          params: { page: 2 },
+          headers,
+          timeout: 1000,
+        })
+      );
+      expect(response.request).toEqual(expected);
+      expect(JSON.parse(JSON.stringify(response.request))).toEqual(expected);
+
+      try {
+        await adapter(
+          createConfig({
+            url: 'https://api.example.com/users',
+            params: { page: 2 },
+            headers,
+            timeout: 1000,
+            validateStatus: (status) => status < 400,
+          })
+        );
+        expect(true).toBe(false); // Should not reach here
+      } catch (error) {
+        expect((error as AxiosError).request).toEqual(expected);
+        expect((error as AxiosError).response?.request).toEqual(expected);
+      }
+    });
+
+    it('should describe the sent request on network errors', async () => {
+      const requestContext = createMockRequestContext(async () => {
+        throw new Error('connect ECONNREFUSED 127.0.0.1:80');
+      });
+      const adapter = createPlaywrightAdapter(requestContext, {
+        onRequest: (request) => ({ ...request, url: 'https://other.example.com/users' }),
+      });
+
+      try {
+        await adapter(createConfig({ url: 'https://api.example.com/users' }));
+        expect(true).toBe(false); // Should not reach here
+      } catch (error) {
+        expect((error as AxiosError).request).toMatchObject({
+          method: 'GET',
+          url: 'https://other.example.com/users',
+        });
+      }
+    });
+
     it('should not throw when validateStatus returns true', async () => {
       const requestContext = createMockRequestContext(async () =>
         createMockResponse({ status: 404 })
@@ -424,6 +816,149 @@ describe('createPlaywrightAdapter', () => {
       expect(response.data).toEqual({ success: true });
     });
 
+    it('should reject immediately when signal aborts mid-flight', async () => {
+      const lateResponse = createMockResponse({ json: { late: true } });
+      let resolveFetch: (response: APIResponse) => void = () => {};
+      const requestContext = createMockRequestContext(
+        () => new Promise<APIResponse>((resolve) => (resolveFetch = resolve))
+      );
+      const adapter = createPlaywrightAdapter(requestContext);
+
+      const controller = new AbortController();
+      const config = createConfig({
+        url: 'https://api.example.com/users',
+        signal: controller.signal,
+      });
+
+      const pending = adapter(config);
+      // Let the request body be prepared and the request dispatched
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(requestContext.fetch).toHaveBeenCalled();
+      controller.abort();
+
+      try {
+        await pending;
+        expect(true).toBe(false); // Should not reach here
+      } catch (error) {
+        expect(axios.isCancel(error)).toBe(true);
+        expect((error as AxiosError).code).toBe(AxiosError.ERR_CANCELED);
+        expect((error as AxiosError).config).toBe(config);
+      }
+
+      // The late Playwright response is discarded
+      resolveFetch(lateResponse);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(lateResponse.dispose).toHaveBeenCalled();
+    });
+
+    it('should reject when a CancelToken is canceled mid-flight', async () => {
+      const requestContext = createMockRequestContext(() => new Promise<APIResponse>(() => {}));
+      const adapter = createPlaywrightAdapter(requestContext);
+
+      const source = axios.CancelToken.source();
+      const config = createConfig({
+        url: 'https://api.example.com/users',
+        cancelToken: source.token,
+      });
+
+      const pending = adapter(config);
+      source.cancel('superseded');
+
+      try {
+        await pending;
+        expect(true).toBe(false); // Should not reach here
+      } catch (error) {
+        expect(axios.isCancel(error)).toBe(true);
+        expect((error as AxiosError).message).toBe('superseded');
+      }
+    });
+
+    it('should not call Playwright when CancelToken was already canceled', async () => {
+      const mockFetch = mock(async () => createMockResponse({}));
+      const requestContext = createMockRequestContext(mockFetch);
+      const adapter = createPlaywrightAdapter(requestContext);
+
+      const source = axios.CancelToken.source();
+      source.cancel('too late');
+
+      const config = createConfig({
+        url: 'https://api.example.com/users',
+        cancelToken: source.token,
+      });
+
+      await expect(adapter(config)).rejects.toThrow('too late');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('progress events', () => {
+    it('should emit upload start and complete events', async () => {
+      const requestContext = createMockRequestContext();
+      const adapter = createPlaywrightAdapter(requestContext);
+      const onUploadProgress = mock(() => {});
+
+      const config = createConfig({
+        url: 'https://api.example.com/users',
+        method: 'POST',
+        data: 'hello',
+        onUploadProgress,
+      });
+
+      await adapter(config);
+
+      expect(onUploadProgress).toHaveBeenCalledTimes(2);
+      expect(onUploadProgress.mock.calls[0][0]).toMatchObject({
+        loaded: 0,
+        total: 5,
+        progress: 0,
+        bytes: 0,
+        upload: true,
+      });
+      expect(onUploadProgress.mock.calls[1][0]).toMatchObject({
+        loaded: 5,
+        total: 5,
+        progress: 1,
+        bytes: 5,
+        upload: true,
+      });
+    });
+
+    it('should not emit upload events without a body', async () => {
+      const requestContext = createMockRequestContext();
+      const adapter = createPlaywrightAdapter(requestContext);
+      const onUploadProgress = mock(() => {});
+
+      await adapter(createConfig({ url: 'https://api.example.com/users', onUploadProgress }));
+
+      expect(onUploadProgress).not.toHaveBeenCalled();
+    });
+
+    it('should emit download events using content-length', async () => {
+      const requestContext = createMockRequestContext(async () =>
+        createMockResponse({
+          headers: { 'content-type': 'text/plain', 'content-length': '13' },
+          body: 'Hello, World!',
+        })
+      );
+      const adapter = createPlaywrightAdapter(requestContext);
+      const onDownloadProgress = mock(() => {});
+
+      await adapter(createConfig({ url: 'https://api.example.com/text', onDownloadProgress }));
+
+      expect(onDownloadProgress).toHaveBeenCalledTimes(2);
+      expect(onDownloadProgress.mock.calls[0][0]).toMatchObject({
+        loaded: 0,
+        total: 13,
+        download: true,
+      });
+      expect(onDownloadProgress.mock.calls[1][0]).toMatchObject({
+        loaded: 13,
+        total: 13,
+        progress: 1,
+        bytes: 13,
+        download: true,
+      });
+    });
   });
 
   describe('error handling', () => {
@@ -448,6 +983,66 @@ describe('createPlaywrightAdapter', () => {
       }
     });
 
+    it('should map Playwright timeouts like the http adapter', async () => {
+      const requestContext = createMockRequestContext(async () => {
+        throw new Error('apiRequestContext.fetch: Timeout 500ms exceeded.');
+      });
+      const adapter = createPlaywrightAdapter(requestContext);
+
+      try {
+        await adapter(createConfig({ url: 'https://api.example.com/users', timeout: 500 }));
+        expect(true).toBe(false); // Should not reach here
+      } catch (error) {
+        expect((error as AxiosError).code).toBe(AxiosError.ECONNABORTED);
+        expect((error as AxiosError).message).toBe('timeout of 500ms exceeded');
+        expect(((error as AxiosError).cause as Error).message).toContain('Timeout 500ms');
+      }
+    });
+
+    it('should honor clarifyTimeoutError and timeoutErrorMessage', async () => {
+      const requestContext = createMockPlaywrightContext([{ path: '/slow', delay: 1000 }]);
+      const adapter = createPlaywrightAdapter(requestContext);
+
+      try {
+        await adapter(
+          createConfig({
+            url: 'https://api.example.com/slow',
+            timeout: 10,
+            timeoutErrorMessage: 'Slow API',
+            transitional: { clarifyTimeoutError: true },
+          })
+        );
+        expect(true).toBe(false); // Should not reach here
+      } catch (error) {
+        expect((error as AxiosError).code).toBe(AxiosError.ETIMEDOUT);
+        expect((error as AxiosError).message).toBe('Slow API');
+      }
+    });
+
+    it('should classify connection and redirect failures', async () => {
+      const cases: Array<[string, string]> = [
+        ['apiRequestContext.fetch: connect ECONNREFUSED 127.0.0.1:9', 'ECONNREFUSED'],
+        ['apiRequestContext.fetch: getaddrinfo ENOTFOUND nowhere.invalid', 'ENOTFOUND'],
+        ['apiRequestContext.fetch: Max redirect count exceeded', AxiosError.ERR_FR_TOO_MANY_REDIRECTS],
+        ['apiRequestContext.fetch: self-signed certificate', 'DEPTH_ZERO_SELF_SIGNED_CERT'],
+      ];
+
+      for (const [message, code] of cases) {
+        const requestContext = createMockRequestContext(async () => {
+          throw new Error(message);
+        });
+        const adapter = createPlaywrightAdapter(requestContext);
+
+        try {
+          await adapter(createConfig({ url: 'https://api.example.com/users' }));
+          expect(true).toBe(false); // Should not reach here
+        } catch (error) {
+          expect((error as AxiosError).code).toBe(code);
+          expect((error as AxiosError).message).toBe(message);
+        }
+      }
+    });
+
     it('should preserve AxiosError as-is', async () => {
       const originalError = new AxiosError(
         'Custom error',
@@ -0,0 +1,278 @@
+import { describe, expect, it } from 'bun:test';
+import axios from 'axios';
+import type { APIRequestContext } from '@playwright/test';
+import { createPlaywrightAdapter } from '../src/axios-adapter';
+import { createPlaywrightFetch } from '../src/fetch-adapter';
+import { createMockPlaywrightContext } from '../src/mock';
+import {
+  cookieMatches,
+  createCookieJar,
+  getSetCookies,
+  parseCookieHeader,
+  parseSetCookie,
+} from '../src/cookie-jar';
+import { createAPIResponse } from '../src/utils/api-response';
+import type { PlaywrightCookie } from '../src/types';
+
+function createCookie(overrides: Partial<PlaywrightCookie> = {}): PlaywrightCookie {
+  return {
+    name: 'session',
+    value: 'abc',
+    domain: 'api.example.com',
+    path: '/',
+    expires: -1,
+    httpOnly: true,
+    secure: false,
+    sameSite: 'Lax',
+    ...overrides,
+  };
+}
+
+const now = Date.parse('2025-01-01T00:00:00Z');
+
+describe('parseSetCookie', () => {
+  const url = new URL('https://api.example.com/auth/login');
+
+  it('should parse name, value and attributes', () => {
+    const cookie = parseSetCookie(
+      'session=abc=1; Domain=example.com; Path=/api; Secure; HttpOnly; SameSite=Strict',
+      url,
+      now
+    );
+
+    expect(cookie).toEqual({
+      name: 'session',
+      value: 'abc=1',
+      domain: '.example.com',
+      path: '/api',
+      expires: -1,
+      httpOnly: true,
+      secure: true,
+      sameSite: 'Strict',
+    });
+  });
+
+  it('should default to a host-only cookie on the request directory', () => {
+    const cookie = parseSetCookie('theme=dark', url, now);
+
+    expect(cookie).toMatchObject({ domain: 'api.example.com', path: '/auth', sameSite: 'Lax' });
+  });
+
+  it('should prefer Max-Age over Expires', () => {
+    const cookie = parseSetCookie(
+      'a=1; Expires=Wed, 01 Jan 2031 00:00:00 GMT; Max-Age=60',
+      url,
+      now
+    );
+
+    expect(cookie?.expires).toBe(now / 1000 + 60);
+    expect(parseSetCookie('a=1; Expires=Wed, 01 Jan 2031 00:00:00 GMT', url, now)?.expires).toBe(
+      Date.parse('2031-01-01T00:00:00Z') / 1000
+    );
+  });
+
+  it('should reject cookies for other domains or without a name', () => {
+    expect(parseSetCookie('a=1; Domain=other.com', url, now)).toBeUndefined();
+    expect(parseSetCookie('=1', url, now)).toBeUndefined();
+  });
+});
+
+describe('cookieMatches', () => {
+  const url = new URL('https://api.example.com/users/1');
+
+  it('should match host-only and domain cookies', () => {
+    expect(cookieMatches(createCookie(), url, now)).toBe(true);
+    expect(cookieMatches(createCookie({ domain: '.example.com' }), url, now)).toBe(true);
+    expect(cookieMatches(createCookie({ domain: 'example.com' }), url, now)).toBe(false);
+  });
+
+  it('should match paths on segment boundaries', () => {
+    expect(cookieMatches(createCookie({ path: '/users' }), url, now)).toBe(true);
+    expect(cookieMatches(createCookie({ path: '/use' }), url, now)).toBe(false);
+  });
+
+  it('should skip expired cookies and secure cookies over http', () => {
+    const secure = createCookie({ secure: true });
+    const secureLocal = createCookie({ secure: true, domain: 'localhost' });
+
+    expect(cookieMatches(createCookie({ expires: now / 1000 - 1 }), url, now)).toBe(false);
+    expect(cookieMatches(secure, new URL('http://api.example.com/'), now)).toBe(false);
+    expect(cookieMatches(secureLocal, new URL('http://localhost/'), now)).toBe(true);
+  });
+});
+
+describe('parseCookieHeader', () => {
+  it('should split name/value pairs', () => {
+    expect(parseCookieHeader('a=1; b=x=y;c')).toEqual([
+      ['a', '1'],
+      ['b', 'x=y'],
+      ['', 'c'],
+    ]);
+    expect(parseCookieHeader(undefined)).toEqual([]);
+  });
+});
+
+describe('createCookieJar', () => {
+  it('should seed from storage state and export it again', () => {
+    const jar = createCookieJar({ cookies: [createCookie()], origins: [] });
+
+    expect(jar.storageState()).toEqual({ cookies: [createCookie()], origins: [] });
+  });
+
+  it('should replace cookies with the same name, domain and path', () => {
+    const jar = createCookieJar();
+
+    jar.setCookies([createCookie(), createCookie({ path: '/admin' })]);
+    jar.setCookies([createCookie({ value: 'new' })]);
+
+    expect(jar.cookies().map(({ path, value }) => `${path}:${value}`)).toEqual([
+      '/admin:abc',
+      '/:new',
+    ]);
+  });
+
+  it('should delete cookies set with an expiry in the past', () => {
+    const jar = createCookieJar({ cookies: [createCookie()] });
+
+    jar.setCookies([createCookie({ expires: 0 })]);
+
+    expect(jar.cookies()).toEqual([]);
+  });
+
+  it('should filter cookies by URL', () => {
+    const jar = createCookieJar({
+      cookies: [createCookie(), createCookie({ name: 'other', domain: 'other.example.com' })],
+    });
+
+    expect(jar.cookies('https://api.example.com/users').map(({ name }) => name)).toEqual(['session']);
+  });
+
+  it('should clear all cookies', () => {
+    const jar = createCookieJar({ cookies: [createCookie()] });
+
+    jar.clear();
+
+    expect(jar.cookies()).toEqual([]);
+  });
+});
+
+describe('getSetCookies', () => {
+  it('should read Playwright responses', () => {
+    const response = createAPIResponse({
+      url: 'https://api.example.com/login',
+      headers: [
+        { name: 'Set-Cookie', value: 'a=1' },
+        { name: 'set-cookie', value: 'b=2; Path=/api' },
+      ],
+    });
+
+    expect(getSetCookies(response).map(({ name, path }) => `${name}:${path}`)).toEqual([
+      'a:/',
+      'b:/api',
+    ]);
+  });
+
+  it('should read axios responses', async () => {
+    const context = createMockPlaywrightContext([
+      { path: '/login', headers: { 'set-cookie': 'session=xyz; HttpOnly' } },
+    ]);
+    const client = axios.create({ adapter: createPlaywrightAdapter(context) });
+
+    const response = await client.post('https://api.example.com/login');
+
+    expect(getSetCookies(response)).toEqual([
+      createCookie({ value: 'xyz', sameSite: 'Lax', httpOnly: true }),
+    ]);
+  });
+
+  it('should read fetch responses', async () => {
+    const context = createMockPlaywrightContext([
+      { path: '/login', headers: { 'set-cookie': 'session=xyz' } },
+    ]);
+    const fetch = createPlaywrightFetch(context);
+
+    const response = await fetch('https://api.example.com/login');
+
+    expect(getSetCookies(response)[0]).toMatchObject({ name: 'session', domain: 'api.example.com' });
+  });
+});
+
+describe('cookieJar option', () => {
+  it('should send jar cookies and store Set-Cookie results', async () => {
+    const context = createMockPlaywrightContext([
+      { method: 'POST', path: '/login', headers: { 'set-cookie': 'session=fresh; Path=/' } },
+      { path: '/me' },
+    ]);
+    const jar = createCookieJar({ cookies: [createCookie({ name: 'theme', value: 'dark' })] });
+    const client = axios.create({
+      baseURL: 'https://api.example.com',
+      adapter: createPlaywrightAdapter(context, { cookieJar: jar }),
+    });
+
+    await client.post('/login');
+    await client.get('/me');
+
+    expect(context.requests[0].options.headers?.cookie).toBe('theme=dark');
+    expect(context.requests[1].options.headers?.cookie).toBe('theme=dark; session=fresh');
+    expect(jar.cookies().map(({ name }) => name)).toEqual(['theme', 'session']);
+  });
+
+  it('should add jar cookies before onRequest runs', async () => {
+    const context = createMockPlaywrightContext([{ path: '/me' }]);
+    const jar = createCookieJar({ cookies: [createCookie({ name: 'theme', value: 'dark' })] });
+    let seen: string | undefined;
+    const client = axios.create({
+      baseURL: 'https://api.example.com',
+      adapter: createPlaywrightAdapter(context, {
+        cookieJar: jar,
+        onRequest: ({ options }) => {
+          seen = options.headers?.cookie;
+        },
+      }),
+    });
+
+    await client.get('/me');
+
+    expect(seen).toBe('theme=dark');
+  });
+
+  it('should let an explicit Cookie header override single cookies', async () => {
+    const context = createMockPlaywrightContext([{ path: '/me' }]);
+    const jar = createCookieJar({
+      cookies: [createCookie(), createCookie({ name: 'theme', value: 'dark' })],
+    });
+    const fetch = createPlaywrightFetch(context, { cookieJar: jar });
+
+    await fetch('https://api.example.com/me', { headers: { Cookie: 'session=override' } });
+
+    expect(context.requests[0].options.headers).toEqual({
+      cookie: 'session=override; theme=dark',
+    });
+  });
+
+  it("should merge and import the request context's own cookies", async () => {
+    const mock = createMockPlaywrightContext([{ path: '/me' }]);
+    const contextCookie = createCookie({ name: 'csrf', value: 'ctx' });
+    const context = Object.assign(mock, {
+      storageState: async () => ({ cookies: [contextCookie], origins: [] }),
+    }) as APIRequestContext & typeof mock;
+    const jar = createCookieJar({ cookies: [createCookie()] });
+    const fetch = createPlaywrightFetch(context, { cookieJar: jar });
+
+    await fetch('https://api.example.com/me');
+
+    expect(mock.requests[0].options.headers?.cookie).toBe('csrf=ctx; session=abc');
+    expect(jar.cookies().map(({ name }) => name)).toEqual(['session', 'csrf']);
+  });
+
+  it('should leave relative URLs to Playwright', async () => {
+    const context = createMockPlaywrightContext([{ path: '/me' }]);
+    const fetch = createPlaywrightFetch(context, {
+      cookieJar: createCookieJar({ cookies: [createCookie()] }),
+    });
+
+    await fetch('/me');
+
+    expect(context.requests[0].options.headers).toBeUndefined();
+  });
+});
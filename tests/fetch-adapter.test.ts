@@ -1,6 +1,10 @@
 import { describe, expect, it, mock } from 'bun:test';
-import type { APIRequestContext, APIResponse } from '@playwright/test';
+import { mkdtempSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { APIRequestContext, APIResponse, TestInfo } from '@playwright/test';
 import { createPlaywrightFetch } from '../src/fetch-adapter';
+import { createMockPlaywrightContext } from '../src/mock';
 
 // Helper to create mock Playwright APIResponse
 function createMockResponse(options: {
@@ -193,8 +197,8 @@ describe('createPlaywrightFetch', () => {
       });
 
       const passedHeaders = capturedOptions.headers as Record<string, string>;
-      expect(passedHeaders['Authorization']).toBe('Bearer token');
-      expect(passedHeaders['Content-Type']).toBe('application/json');
+      expect(passedHeaders['authorization']).toBe('Bearer token');
+      expect(passedHeaders['content-type']).toBe('application/json');
     });
 
     it('should pass Headers instance', async () => {
@@ -214,6 +218,24 @@ describe('createPlaywrightFetch', () => {
       expect(passedHeaders['authorization']).toBe('Bearer token');
     });
 
+    it('should combine header names differing only in case', async () => {
+      let capturedOptions: Record<string, unknown> = {};
+      const requestContext = createMockRequestContext(async (_, options) => {
+        capturedOptions = options as Record<string, unknown>;
+        return createMockResponse({});
+      });
+      const fetch = createPlaywrightFetch(requestContext);
+
+      await fetch('https://api.example.com/users', {
+        headers: [
+          ['Accept', 'application/json'],
+          ['accept', 'text/plain'],
+        ],
+      });
+
+      expect(capturedOptions.headers).toEqual({ accept: 'application/json, text/plain' });
+    });
+
     it('should pass headers as array', async () => {
       let capturedOptions: Record<string, unknown> = {};
       const requestContext = createMockRequestContext(async (_, options) => {
@@ -230,8 +252,8 @@ describe('createPlaywrightFetch', () => {
       });
 
       const passedHeaders = capturedOptions.headers as Record<string, string>;
-      expect(passedHeaders['Authorization']).toBe('Bearer token');
-      expect(passedHeaders['Accept']).toBe('application/json');
+      expect(passedHeaders['authorization']).toBe('Bearer token');
+      expect(passedHeaders['accept']).toBe('application/json');
     });
   });
 
@@ -276,6 +298,22 @@ describe('createPlaywrightFetch', () => {
       });
     });
 
+    it('should keep repeated URLSearchParams fields', async () => {
+      let capturedOptions: Record<string, unknown> = {};
+      const requestContext = createMockRequestContext(async (_, options) => {
+        capturedOptions = options as Record<string, unknown>;
+        return createMockResponse({});
+      });
+      const fetch = createPlaywrightFetch(requestContext);
+
+      await fetch('https://api.example.com/search', {
+        method: 'POST',
+        body: new URLSearchParams('tag=a&tag=b'),
+      });
+
+      expect((capturedOptions.form as FormData).getAll('tag')).toEqual(['a', 'b']);
+    });
+
     it('should transform form-urlencoded string to form', async () => {
       let capturedOptions: Record<string, unknown> = {};
       const requestContext = createMockRequestContext(async (_, options) => {
@@ -296,6 +334,26 @@ describe('createPlaywrightFetch', () => {
       });
     });
 
+    it('should match the content type case-insensitively', async () => {
+      let capturedOptions: Record<string, unknown> = {};
+      const requestContext = createMockRequestContext(async (_, options) => {
+        capturedOptions = options as Record<string, unknown>;
+        return createMockResponse({});
+      });
+      const fetch = createPlaywrightFetch(requestContext);
+
+      await fetch('https://api.example.com/login', {
+        method: 'POST',
+        body: 'username=john',
+        headers: [['CONTENT-TYPE', 'Application/X-WWW-Form-Urlencoded']],
+      });
+
+      expect(capturedOptions.form).toEqual({ username: 'john' });
+      expect(capturedOptions.headers).toEqual({
+        'content-type': 'Application/X-WWW-Form-Urlencoded',
+      });
+    });
+
     it('should transform FormData to multipart', async () => {
       let capturedOptions: Record<string, unknown> = {};
       const requestContext = createMockRequestContext(async (_, options) => {
@@ -318,6 +376,81 @@ describe('createPlaywrightFetch', () => {
       expect(multipart['email']).toBe('john@example.com');
     });
 
+    it('should read FormData files into Buffers', async () => {
+      let capturedOptions: Record<string, unknown> = {};
+      const requestContext = createMockRequestContext(async (_, options) => {
+        capturedOptions = options as Record<string, unknown>;
+        return createMockResponse({});
+      });
+      const fetch = createPlaywrightFetch(requestContext);
+
+      const formData = new FormData();
+      formData.append('avatar', new File(['png'], 'avatar.png', { type: 'image/png' }));
+      formData.append('notes', new Blob(['text']));
+
+      await fetch('https://api.example.com/upload', { method: 'POST', body: formData });
+
+      expect(capturedOptions.multipart).toEqual({
+        avatar: { name: 'avatar.png', mimeType: 'image/png', buffer: Buffer.from('png') },
+        notes: { name: 'blob', mimeType: 'application/octet-stream', buffer: Buffer.from('text') },
+      });
+    });
+
+    describe('BodyInit variants', () => {
+      async function captureBody(body: BodyInit, init: RequestInit = {}) {
+        let capturedOptions: Record<string, unknown> = {};
+        const requestContext = createMockRequestContext(async (_, options) => {
+          capturedOptions = options as Record<string, unknown>;
+          return createMockResponse({});
+        });
+        const fetch = createPlaywrightFetch(requestContext);
+
+        await fetch('https://api.example.com/upload', { method: 'POST', body, ...init });
+        return capturedOptions;
+      }
+
+      it('should read a Blob into a Buffer and send its type', async () => {
+        const blob = new Blob([new Uint8Array([137, 80])], { type: 'image/png' });
+        const options = await captureBody(blob);
+
+        expect(options.data).toEqual(Buffer.from([137, 80]));
+        expect(options.headers).toEqual({ 'content-type': 'image/png' });
+      });
+
+      it('should keep an explicit content type for a Blob', async () => {
+        const options = await captureBody(new Blob(['x'], { type: 'text/csv' }), {
+          headers: { 'Content-Type': 'application/octet-stream' },
+        });
+
+        expect(options.headers).toEqual({ 'content-type': 'application/octet-stream' });
+      });
+
+      it('should convert ArrayBuffers and views, respecting their offsets', async () => {
+        const bytes = new Uint8Array([0, 1, 2, 3, 4, 5]);
+
+        expect((await captureBody(bytes.buffer)).data).toEqual(Buffer.from([0, 1, 2, 3, 4, 5]));
+        expect((await captureBody(bytes.subarray(2, 4))).data).toEqual(Buffer.from([2, 3]));
+        expect((await captureBody(new DataView(bytes.buffer, 1, 2))).data).toEqual(
+          Buffer.from([1, 2])
+        );
+        expect((await captureBody(new Uint16Array([1]))).data).toEqual(Buffer.from([1, 0]));
+      });
+
+      it("should drain a ReadableStream sent with duplex: 'half'", async () => {
+        const stream = new ReadableStream<Uint8Array>({
+          start(controller) {
+            controller.enqueue(new TextEncoder().encode('chunk 1, '));
+            controller.enqueue(new TextEncoder().encode('chunk 2'));
+            controller.close();
+          },
+        });
+
+        const options = await captureBody(stream, { duplex: 'half' } as RequestInit);
+
+        expect(options.data).toEqual(Buffer.from('chunk 1, chunk 2'));
+      });
+    });
+
     it('should handle null body', async () => {
       let capturedOptions: Record<string, unknown> = {};
       const requestContext = createMockRequestContext(async (_, options) => {
@@ -393,6 +526,128 @@ describe('createPlaywrightFetch', () => {
     });
   });
 
+  describe('hooks', () => {
+    it('should run onRequest and onResponse around the Playwright call', async () => {
+      let capturedOptions: Record<string, unknown> = {};
+      const mockResponse = createMockResponse({});
+      const requestContext = createMockRequestContext(async (_, options) => {
+        capturedOptions = options as Record<string, unknown>;
+        return mockResponse;
+      });
+      const onResponse = mock(() => {});
+      const fetch = createPlaywrightFetch(requestContext, {
+        onRequest: ({ options }) => {
+          options.headers = { ...options.headers, 'X-Correlation-Id': '42' };
+        },
+        onResponse,
+      });
+
+      await fetch('https://api.example.com/users');
+
+      expect((capturedOptions.headers as Record<string, string>)['X-Correlation-Id']).toBe('42');
+      expect(onResponse.mock.calls[0][0]).toBe(mockResponse);
+    });
+
+    it('should run onError and rethrow', async () => {
+      const requestContext = createMockRequestContext(async () => {
+        throw new Error('Network error');
+      });
+      const onError = mock(() => {});
+      const fetch = createPlaywrightFetch(requestContext, { onError });
+
+      await expect(fetch('https://api.example.com/users')).rejects.toThrow('Network error');
+      expect(onError).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('test report attachments', () => {
+    it('should attach the exchange and keep the body readable', async () => {
+      const testInfo = { attach: mock(async () => {}) } as unknown as TestInfo;
+      const requestContext = createMockRequestContext(async () =>
+        createMockResponse({ body: JSON.stringify({ id: 1 }) })
+      );
+      const fetch = createPlaywrightFetch(requestContext, { attachToTestInfo: { testInfo } });
+
+      const response = await fetch('https://api.example.com/users/1', {
+        headers: { Authorization: 'Bearer secret' },
+      });
+
+      expect(await response.json()).toEqual({ id: 1 });
+      const [name, attachment] = (testInfo.attach as ReturnType<typeof mock>).mock.calls[0] as [
+        string,
+        { body: string },
+      ];
+      const record = JSON.parse(attachment.body);
+      expect(name).toBe('GET https://api.example.com/users/1 → 200');
+      expect(record.request.headers.authorization).toBe('[REDACTED]');
+      expect(record.response.body).toBe('{"id":1}');
+    });
+  });
+
+  describe('record and replay', () => {
+    it('should replay recorded responses without calling Playwright', async () => {
+      const harPath = join(mkdtempSync(join(tmpdir(), 'fetch-har-')), 'api.har');
+      const recordContext = createMockRequestContext(async () =>
+        createMockResponse({ status: 201, body: JSON.stringify({ id: 7 }) })
+      );
+      const record = createPlaywrightFetch(recordContext, { mode: 'record', harPath });
+
+      await record('https://api.example.com/users', { method: 'POST', body: '{"name":"John"}' });
+
+      const replayContext = createMockRequestContext();
+      const replay = createPlaywrightFetch(replayContext, { mode: 'replay', harPath });
+      const response = await replay('https://api.example.com/users', {
+        method: 'POST',
+        body: '{"name":"John"}',
+      });
+
+      expect(replayContext.fetch).not.toHaveBeenCalled();
+      expect(response.status).toBe(201);
+      expect(await response.json()).toEqual({ id: 7 });
+    });
+
+    it('should reject when replaying without harPath', async () => {
+      const fetch = createPlaywrightFetch(createMockRequestContext(), { mode: 'replay' });
+
+      await expect(fetch('https://api.example.com/users')).rejects.toThrow('harPath is required');
+    });
+  });
+
+  describe('retry policy', () => {
+    it('should honor Retry-After before retrying', async () => {
+      const context = createMockPlaywrightContext([
+        { path: '/jobs', body: { done: true } },
+        { path: '/jobs', status: 429, headers: { 'Retry-After': '0' }, times: 1 },
+      ]);
+      const delays: number[] = [];
+      const fetch = createPlaywrightFetch(context, {
+        retry: { baseDelay: 10000, onRetry: ({ delay }) => void delays.push(delay) },
+      });
+
+      const response = await fetch('https://api.example.com/jobs');
+
+      expect(response.status).toBe(200);
+      expect(delays).toEqual([0]);
+    });
+
+    it('should retry POST only with an idempotency key', async () => {
+      const context = createMockPlaywrightContext([
+        { method: 'POST', path: '/orders', status: 201 },
+        { method: 'POST', path: '/orders', status: 503, times: 2 },
+      ]);
+      const fetch = createPlaywrightFetch(context, { retry: { retries: 1, baseDelay: 0 } });
+
+      const plain = await fetch('https://api.example.com/orders', { method: 'POST' });
+      const keyed = await fetch('https://api.example.com/orders', {
+        method: 'POST',
+        headers: { 'Idempotency-Key': 'order-1' },
+      });
+
+      expect(plain.status).toBe(503);
+      expect(keyed.status).toBe(201);
+    });
+  });
+
   describe('response handling', () => {
     it('should handle different status codes', async () => {
       const requestContext = createMockRequestContext(async () =>
@@ -477,6 +732,58 @@ describe('createPlaywrightFetch', () => {
       expect(buffer).toBeInstanceOf(ArrayBuffer);
       expect(buffer.byteLength).toBe(4);
     });
+
+    it('should expose the body as a ReadableStream', async () => {
+      const requestContext = createMockRequestContext(async () =>
+        createMockResponse({
+          headers: { 'content-type': 'application/x-ndjson' },
+          body: '{"id":1}\n{"id":2}\n',
+        })
+      );
+      const fetch = createPlaywrightFetch(requestContext);
+
+      const response = await fetch('https://api.example.com/events');
+
+      expect(response.body).toBeInstanceOf(ReadableStream);
+
+      const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+      let text = '';
+      for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+        text += chunk.value;
+      }
+      expect(text).toBe('{"id":1}\n{"id":2}\n');
+    });
+
+    it('should keep repeated response headers apart', async () => {
+      const requestContext = createMockRequestContext(async () => ({
+        ...createMockResponse({}),
+        headersArray: () => [
+          { name: 'Content-Type', value: 'application/json' },
+          { name: 'Set-Cookie', value: 'a=1; Path=/' },
+          { name: 'Set-Cookie', value: 'b=2; Path=/' },
+          { name: 'Vary', value: 'Accept' },
+          { name: 'Vary', value: 'Origin' },
+        ],
+      }));
+      const fetch = createPlaywrightFetch(requestContext);
+
+      const response = await fetch('https://api.example.com/login');
+
+      expect(response.headers.getSetCookie()).toEqual(['a=1; Path=/', 'b=2; Path=/']);
+      expect(response.headers.get('vary')).toBe('Accept, Origin');
+      expect(response.headers.get('content-type')).toBe('application/json');
+    });
+
+    it('should have a null body for 204 No Content', async () => {
+      const requestContext = createMockRequestContext(async () =>
+        createMockResponse({ status: 204, statusText: 'No Content', body: '' })
+      );
+      const fetch = createPlaywrightFetch(requestContext);
+
+      const response = await fetch('https://api.example.com/users/1', { method: 'DELETE' });
+
+      expect(response.body).toBeNull();
+    });
   });
 
   describe('HTTP methods', () => {
@@ -550,5 +857,108 @@ describe('createPlaywrightFetch', () => {
 
       expect(capturedOptions.method).toBe('POST');
     });
+
+    it('should read body from Request object', async () => {
+      let capturedOptions: Record<string, unknown> = {};
+      const requestContext = createMockRequestContext(async (_, options) => {
+        capturedOptions = options as Record<string, unknown>;
+        return createMockResponse({});
+      });
+      const fetch = createPlaywrightFetch(requestContext);
+
+      const request = new Request('https://api.example.com/users', {
+        method: 'POST',
+        body: JSON.stringify({ name: 'John' }),
+        headers: { 'Content-Type': 'application/json' },
+      });
+
+      await fetch(request);
+
+      expect(Buffer.isBuffer(capturedOptions.data)).toBe(true);
+      expect((capturedOptions.data as Buffer).toString()).toBe('{"name":"John"}');
+    });
+
+    it('should prefer init body over Request body', async () => {
+      let capturedOptions: Record<string, unknown> = {};
+      const requestContext = createMockRequestContext(async (_, options) => {
+        capturedOptions = options as Record<string, unknown>;
+        return createMockResponse({});
+      });
+      const fetch = createPlaywrightFetch(requestContext);
+
+      const request = new Request('https://api.example.com/users', {
+        method: 'POST',
+        body: 'from-request',
+      });
+
+      await fetch(request, { body: 'from-init' });
+
+      expect(capturedOptions.data).toBe('from-init');
+    });
+  });
+
+  describe('abort signal handling', () => {
+    it('should reject with AbortError when signal is already aborted', async () => {
+      const mockFetch = mock(async () => createMockResponse({}));
+      const requestContext = createMockRequestContext(mockFetch);
+      const fetch = createPlaywrightFetch(requestContext);
+
+      const controller = new AbortController();
+      controller.abort();
+
+      try {
+        await fetch('https://api.example.com/users', { signal: controller.signal });
+        expect(true).toBe(false); // Should not reach here
+      } catch (error) {
+        expect(error).toBeInstanceOf(DOMException);
+        expect((error as DOMException).name).toBe('AbortError');
+      }
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should reject when signal aborts mid-flight', async () => {
+      const requestContext = createMockRequestContext(() => new Promise<APIResponse>(() => {}));
+      const fetch = createPlaywrightFetch(requestContext);
+
+      const controller = new AbortController();
+      const pending = fetch('https://api.example.com/users', { signal: controller.signal });
+      controller.abort();
+
+      try {
+        await pending;
+        expect(true).toBe(false); // Should not reach here
+      } catch (error) {
+        expect((error as DOMException).name).toBe('AbortError');
+      }
+    });
+
+    it('should honour the signal of a Request object', async () => {
+      const requestContext = createMockRequestContext(() => new Promise<APIResponse>(() => {}));
+      const fetch = createPlaywrightFetch(requestContext);
+
+      const controller = new AbortController();
+      const pending = fetch(
+        new Request('https://api.example.com/users', { signal: controller.signal })
+      );
+      controller.abort();
+
+      try {
+        await pending;
+        expect(true).toBe(false); // Should not reach here
+      } catch (error) {
+        expect((error as DOMException).name).toBe('AbortError');
+      }
+    });
+
+    it('should reject with a custom abort reason', async () => {
+      const requestContext = createMockRequestContext(() => new Promise<APIResponse>(() => {}));
+      const fetch = createPlaywrightFetch(requestContext);
+
+      const controller = new AbortController();
+      const pending = fetch('https://api.example.com/users', { signal: controller.signal });
+      controller.abort(new Error('superseded'));
+
+      await expect(pending).rejects.toThrow('superseded');
+    });
   });
 });
@@ -0,0 +1,181 @@
+import { describe, expect, it, mock } from 'bun:test';
+import { AxiosHeaders, type AxiosResponse, type InternalAxiosRequestConfig } from 'axios';
+import type { APIRequestContext, APIResponse, ExpectMatcherState } from '@playwright/test';
+import { apiMatchers } from '../src/matchers';
+import { createPlaywrightFetch } from '../src/fetch-adapter';
+
+const state = { isNot: false, promise: '', timeout: 0 } as unknown as ExpectMatcherState;
+const notState = { ...state, isNot: true } as ExpectMatcherState;
+
+// Helper to create an axios response
+function createAxiosResponse(overrides: Partial<AxiosResponse> = {}): AxiosResponse {
+  const headers = new AxiosHeaders();
+  headers.set('Content-Type', 'application/json');
+
+  return {
+    data: { id: 1, name: 'John' },
+    status: 200,
+    statusText: 'OK',
+    headers,
+    config: {
+      method: 'get',
+      baseURL: 'https://api.example.com',
+      url: '/users/1',
+      headers: new AxiosHeaders(),
+    } as InternalAxiosRequestConfig,
+    ...overrides,
+  };
+}
+
+// Helper to create a fetch Response through the fetch adapter
+async function createFetchResponse(status: number, body: string): Promise<Response> {
+  const apiResponse = {
+    status: () => status,
+    statusText: () => '',
+    headers: () => ({ 'content-type': 'application/json', 'x-request-id': 'abc-123' }),
+    headersArray: () => [
+      { name: 'content-type', value: 'application/json' },
+      { name: 'x-request-id', value: 'abc-123' },
+    ],
+    body: async () => Buffer.from(body),
+    url: () => 'https://api.example.com/users',
+    dispose: mock(() => Promise.resolve()),
+  } as unknown as APIResponse;
+  const requestContext = { fetch: mock(async () => apiResponse) } as unknown as APIRequestContext;
+
+  return createPlaywrightFetch(requestContext)('https://api.example.com/users', { method: 'POST' });
+}
+
+describe('apiMatchers', () => {
+  describe('toHaveStatus', () => {
+    it('should pass for matching axios status', async () => {
+      const result = await apiMatchers.toHaveStatus.call(state, createAxiosResponse(), 200);
+      expect(result.pass).toBe(true);
+    });
+
+    it('should fail with request and body in the message', async () => {
+      const response = createAxiosResponse({ status: 404, data: { error: 'Not found' } });
+
+      const result = await apiMatchers.toHaveStatus.call(state, response, 200);
+
+      expect(result.pass).toBe(false);
+      const message = result.message();
+      expect(message).toContain('Expected status: 200');
+      expect(message).toContain('Received status: 404');
+      expect(message).toContain('Request: GET https://api.example.com/users/1');
+      expect(message).toContain('{"error":"Not found"}');
+    });
+
+    it('should work on fetch Responses', async () => {
+      const response = await createFetchResponse(500, '{"error":"boom"}');
+
+      const result = await apiMatchers.toHaveStatus.call(state, response, 200);
+
+      expect(result.pass).toBe(false);
+      expect(result.message()).toContain('Request: POST https://api.example.com/users');
+      expect(result.message()).toContain('{"error":"boom"}');
+      // The body is still readable after the assertion
+      expect(await response.json()).toEqual({ error: 'boom' });
+    });
+
+    it('should describe negated failures', async () => {
+      const result = await apiMatchers.toHaveStatus.call(notState, createAxiosResponse(), 200);
+
+      expect(result.pass).toBe(true);
+      expect(result.message()).toContain('.not.toHaveStatus');
+      expect(result.message()).toContain('Expected status: not 200');
+    });
+  });
+
+  describe('toBeOK', () => {
+    it('should pass for 2xx and fail otherwise', async () => {
+      expect((await apiMatchers.toBeOK.call(state, createAxiosResponse())).pass).toBe(true);
+      expect(
+        (await apiMatchers.toBeOK.call(state, createAxiosResponse({ status: 302 }))).pass
+      ).toBe(false);
+      expect((await apiMatchers.toBeOK.call(state, await createFetchResponse(201, '{}'))).pass).toBe(
+        true
+      );
+    });
+  });
+
+  describe('toHaveHeader', () => {
+    it('should match header presence case-insensitively', async () => {
+      const result = await apiMatchers.toHaveHeader.call(state, createAxiosResponse(), 'content-type');
+      expect(result.pass).toBe(true);
+    });
+
+    it('should match exact values and patterns', async () => {
+      const response = await createFetchResponse(200, '{}');
+
+      expect((await apiMatchers.toHaveHeader.call(state, response, 'X-Request-Id', 'abc-123')).pass).toBe(
+        true
+      );
+      expect((await apiMatchers.toHaveHeader.call(state, response, 'x-request-id', /^abc-/)).pass).toBe(
+        true
+      );
+      expect((await apiMatchers.toHaveHeader.call(state, response, 'x-request-id', 'other')).pass).toBe(
+        false
+      );
+    });
+
+    it('should fail for missing headers on plain header objects', async () => {
+      const response = createAxiosResponse({ headers: { 'content-type': 'text/plain' } });
+
+      const result = await apiMatchers.toHaveHeader.call(state, response, 'etag');
+
+      expect(result.pass).toBe(false);
+      expect(result.message()).toContain('Received: <missing>');
+    });
+  });
+
+  describe('toHaveJSONBody', () => {
+    it('should compare parsed axios data', async () => {
+      const result = await apiMatchers.toHaveJSONBody.call(state, createAxiosResponse(), {
+        id: 1,
+        name: 'John',
+      });
+      expect(result.pass).toBe(true);
+    });
+
+    it('should parse string axios data', async () => {
+      const response = createAxiosResponse({ data: '{"ok":true}' });
+      expect((await apiMatchers.toHaveJSONBody.call(state, response, { ok: true })).pass).toBe(true);
+    });
+
+    it('should fail on invalid JSON', async () => {
+      const response = await createFetchResponse(200, 'not json');
+
+      const result = await apiMatchers.toHaveJSONBody.call(state, response, {});
+
+      expect(result.pass).toBe(false);
+      expect(result.message()).toContain('Body is not valid JSON');
+    });
+  });
+
+  describe('toMatchJSONSchema', () => {
+    it('should report schema violations', async () => {
+      const result = await apiMatchers.toMatchJSONSchema.call(state, createAxiosResponse(), {
+        type: 'object',
+        required: ['email'],
+      });
+
+      expect(result.pass).toBe(false);
+      expect(result.message()).toContain('$.email is required');
+    });
+
+    it('should pass for matching bodies', async () => {
+      const result = await apiMatchers.toMatchJSONSchema.call(state, createAxiosResponse(), {
+        type: 'object',
+        properties: { id: { type: 'integer' } },
+      });
+      expect(result.pass).toBe(true);
+    });
+  });
+
+  it('should reject unsupported values', async () => {
+    await expect(apiMatchers.toBeOK.call(state, {} as AxiosResponse)).rejects.toThrow(
+      'expected an AxiosResponse'
+    );
+  });
+});
@@ -0,0 +1,210 @@
+import { describe, expect, it } from 'bun:test';
+import axios from 'axios';
+import { createPlaywrightAdapter } from '../src/axios-adapter';
+import { createPlaywrightFetch } from '../src/fetch-adapter';
+import { createMockPlaywrightContext } from '../src/mock';
+
+describe('createMockPlaywrightContext', () => {
+  describe('route matching', () => {
+    it('should match method and path with named params', async () => {
+      const context = createMockPlaywrightContext([
+        { method: 'GET', path: '/users/:id', body: (req) => ({ id: req.params.id }) },
+      ]);
+
+      const response = await context.fetch('https://api.example.com/users/42', { method: 'GET' });
+
+      expect(response.status()).toBe(200);
+      expect(response.headers()['content-type']).toBe('application/json');
+      expect(await response.json()).toEqual({ id: '42' });
+    });
+
+    it('should support wildcards and RegExp paths', async () => {
+      const context = createMockPlaywrightContext([
+        { path: '/files/*', body: 'file' },
+        { path: /^\/v(?<version>\d+)\/status$/, body: (req) => req.params.version },
+      ]);
+
+      expect(await (await context.fetch('/files/a/b.txt')).text()).toBe('file');
+      expect(await (await context.fetch('/v2/status')).text()).toBe('2');
+    });
+
+    it('should match query params from the URL and params option', async () => {
+      const context = createMockPlaywrightContext([
+        { path: '/search', query: { q: 'john', page: '2' }, body: 'page 2' },
+        { path: '/search', query: (query) => query.get('page') === '3', body: 'page 3' },
+      ]);
+
+      const byObject = await context.fetch('/search?q=john', { params: { page: 2 } });
+      const byPredicate = await context.fetch('/search', { params: { page: 3 } });
+
+      expect(await byObject.text()).toBe('page 2');
+      expect(await byPredicate.text()).toBe('page 3');
+    });
+
+    it('should match JSON and form request bodies', async () => {
+      const context = createMockPlaywrightContext([
+        {
+          method: 'POST',
+          path: '/users',
+          requestBody: (body: unknown) => (body as { name: string }).name.startsWith('J'),
+          status: 202,
+        },
+        { method: 'POST', path: '/users', requestBody: { name: 'John' }, status: 201 },
+        { method: 'POST', path: '/login', requestBody: { user: 'john' }, status: 204 },
+      ]);
+
+      const created = await context.fetch('/users', { method: 'POST', data: '{"name":"John"}' });
+      const accepted = await context.fetch('/users', { method: 'POST', data: { name: 'Jane' } });
+      const login = await context.fetch('/login', { method: 'POST', form: { user: 'john' } });
+
+      expect(created.status()).toBe(201);
+      expect(accepted.status()).toBe(202);
+      expect(login.status()).toBe(204);
+    });
+
+    it('should expose repeated form fields as arrays', async () => {
+      const form = new FormData();
+      form.append('tag', 'a');
+      form.append('tag', 'b');
+      const context = createMockPlaywrightContext([
+        { method: 'POST', path: '/tags', requestBody: { tag: ['a', 'b'] }, status: 204 },
+      ]);
+
+      const response = await context.fetch('/tags', { method: 'POST', form });
+
+      expect(response.status()).toBe(204);
+    });
+
+    it('should prefer routes declared later', async () => {
+      const context = createMockPlaywrightContext([{ path: '/users', body: 'first' }]);
+      context.route({ path: '/users', body: 'second' });
+
+      expect(await (await context.fetch('/users')).text()).toBe('second');
+    });
+
+    it('should skip routes that used up their times', async () => {
+      const context = createMockPlaywrightContext([
+        { path: '/flaky', status: 200 },
+        { path: '/flaky', status: 503, times: 1 },
+      ]);
+
+      expect((await context.fetch('/flaky')).status()).toBe(503);
+      expect((await context.fetch('/flaky')).status()).toBe(200);
+    });
+
+    it('should reject requests no route matches', async () => {
+      const context = createMockPlaywrightContext([{ method: 'GET', path: '/users' }]);
+
+      await expect(context.fetch('/users', { method: 'DELETE' })).rejects.toThrow(
+        'No mock route matches DELETE /users'
+      );
+    });
+  });
+
+  describe('responses', () => {
+    it('should send declared status, headers and raw bodies', async () => {
+      const context = createMockPlaywrightContext([
+        {
+          path: '/report',
+          status: 202,
+          statusText: 'Queued',
+          headers: { 'Content-Type': 'text/csv' },
+          body: 'a,b',
+        },
+      ]);
+
+      const response = await context.fetch('/report');
+
+      expect(response.status()).toBe(202);
+      expect(response.statusText()).toBe('Queued');
+      expect(response.headers()).toEqual({ 'content-type': 'text/csv' });
+      expect(await response.text()).toBe('a,b');
+    });
+
+    it('should wait for the route delay', async () => {
+      const context = createMockPlaywrightContext([{ path: '/slow', delay: 30 }]);
+
+      const startedAt = Date.now();
+      await context.fetch('/slow');
+
+      expect(Date.now() - startedAt).toBeGreaterThanOrEqual(25);
+    });
+
+    it('should reject when the delay exceeds the request timeout', async () => {
+      const context = createMockPlaywrightContext([{ path: '/slow', delay: 1000 }]);
+
+      await expect(context.fetch('/slow', { timeout: 10 })).rejects.toThrow('Timeout 10ms exceeded');
+    });
+  });
+
+  describe('context', () => {
+    it('should record received requests', async () => {
+      const context = createMockPlaywrightContext([{ path: '/users' }]);
+
+      await context.fetch('/users', { method: 'POST', data: '{}' });
+
+      expect(context.requests).toEqual([{ url: '/users', options: { method: 'POST', data: '{}' } }]);
+    });
+
+    it('should reject requests after dispose', async () => {
+      const context = createMockPlaywrightContext([{ path: '/users' }]);
+
+      await context.dispose();
+
+      await expect(context.fetch('/users')).rejects.toThrow('disposed');
+    });
+
+    it('should route the convenience methods through fetch', async () => {
+      const context = createMockPlaywrightContext([
+        { method: 'POST', path: '/users', status: 201, body: { id: 1 } },
+        { method: 'DELETE', path: '/users/:id', status: 204 },
+      ]);
+
+      const created = await context.post('/users', { data: { name: 'John' } });
+      const deleted = await context.delete('/users/1');
+
+      expect(created.status()).toBe(201);
+      expect(await created.json()).toEqual({ id: 1 });
+      expect(deleted.status()).toBe(204);
+      expect(context.requests.map(({ options }) => options.method)).toEqual(['POST', 'DELETE']);
+      expect(await context.storageState()).toEqual({ cookies: [], origins: [] });
+    });
+  });
+
+  describe('with the adapters', () => {
+    it('should serve axios requests', async () => {
+      const context = createMockPlaywrightContext([
+        { method: 'POST', path: '/users', requestBody: { name: 'John' }, status: 201, body: { id: 1 } },
+      ]);
+      const client = axios.create({
+        baseURL: 'https://api.example.com',
+        adapter: createPlaywrightAdapter(context),
+      });
+
+      const response = await client.post('/users', { name: 'John' });
+
+      expect(response.status).toBe(201);
+      expect(response.data).toEqual({ id: 1 });
+    });
+
+    it('should surface unmatched axios requests as network errors', async () => {
+      const client = axios.create({ adapter: createPlaywrightAdapter(createMockPlaywrightContext()) });
+
+      await expect(client.get('https://api.example.com/users')).rejects.toMatchObject({
+        code: 'ERR_NETWORK',
+      });
+    });
+
+    it('should serve fetch requests', async () => {
+      const context = createMockPlaywrightContext([
+        { path: '/users/:id', headers: { etag: '"v1"' }, body: (req) => ({ id: Number(req.params.id) }) },
+      ]);
+      const fetch = createPlaywrightFetch(context);
+
+      const response = await fetch('https://api.example.com/users/7');
+
+      expect(response.headers.get('etag')).toBe('"v1"');
+      expect(await response.json()).toEqual({ id: 7 });
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, expect, it } from 'bun:test';
+import axios, { AxiosError } from 'axios';
+import { createPlaywrightAdapter } from '../src/axios-adapter';
+import { createPlaywrightFetch } from '../src/fetch-adapter';
+import { createMockPlaywrightContext } from '../src/mock';
+import {
+  formatProblemDetails,
+  getProblemDetails,
+  isProblemJSONContentType,
+  parseProblemDetails,
+  readResponseProblem,
+  type ProblemDetailsError,
+} from '../src/problem-details';
+
+const validationProblem = {
+  type: 'https://example.com/problems/validation',
+  title: 'Validation failed',
+  status: 422,
+  detail: 'email is invalid',
+  instance: '/users',
+  errors: [{ field: 'email' }],
+};
+
+const problemRoute = {
+  method: 'POST',
+  path: '/users',
+  status: 422,
+  headers: { 'content-type': 'application/problem+json' },
+  body: validationProblem,
+};
+
+describe('isProblemJSONContentType', () => {
+  it('should match application/problem+json only', () => {
+    expect(isProblemJSONContentType('application/problem+json')).toBe(true);
+    expect(isProblemJSONContentType('application/problem+json; charset=utf-8')).toBe(true);
+    expect(isProblemJSONContentType('application/json')).toBe(false);
+    expect(isProblemJSONContentType(null)).toBe(false);
+  });
+});
+
+describe('parseProblemDetails', () => {
+  it('should keep standard and extension members', () => {
+    expect(parseProblemDetails(validationProblem)).toEqual(validationProblem);
+  });
+
+  it('should parse JSON strings and Buffers', () => {
+    const json = JSON.stringify(validationProblem);
+
+    expect(parseProblemDetails(json)?.title).toBe('Validation failed');
+    expect(parseProblemDetails(Buffer.from(json))?.status).toBe(422);
+  });
+
+  it('should default type and drop members with the wrong type', () => {
+    expect(parseProblemDetails({ type: 1, title: 'Oops', status: '500', detail: null })).toEqual({
+      type: 'about:blank',
+      title: 'Oops',
+    });
+  });
+
+  it('should reject bodies that are not JSON objects', () => {
+    expect(parseProblemDetails('not json')).toBeUndefined();
+    expect(parseProblemDetails([1])).toBeUndefined();
+    expect(parseProblemDetails(null)).toBeUndefined();
+  });
+});
+
+describe('readResponseProblem', () => {
+  it('should only read non-2xx problem+json responses', () => {
+    expect(readResponseProblem(422, 'application/problem+json', validationProblem)).toBeDefined();
+    expect(readResponseProblem(200, 'application/problem+json', validationProblem)).toBeUndefined();
+    expect(readResponseProblem(422, 'application/json', validationProblem)).toBeUndefined();
+  });
+});
+
+describe('formatProblemDetails', () => {
+  it('should join title and detail', () => {
+    expect(formatProblemDetails({ type: 'about:blank', title: 'Gone', detail: 'deleted' })).toBe(
+      'Gone: deleted'
+    );
+  });
+
+  it('should fall back to the type URI', () => {
+    expect(formatProblemDetails({ type: 'https://example.com/problems/x' })).toBe(
+      'https://example.com/problems/x'
+    );
+    expect(formatProblemDetails({ type: 'about:blank' })).toBe('');
+  });
+});
+
+describe('problemDetails option', () => {
+  it('should attach problem details to the axios error', async () => {
+    const client = axios.create({
+      baseURL: 'https://api.example.com',
+      adapter: createPlaywrightAdapter(createMockPlaywrightContext([problemRoute]), {
+        problemDetails: true,
+      }),
+    });
+
+    try {
+      await client.post('/users', { email: 'nope' });
+      expect(true).toBe(false); // Should not reach here
+    } catch (error) {
+      expect(error).toBeInstanceOf(AxiosError);
+      expect((error as AxiosError).message).toBe(
+        'Request failed with status code 422 (Validation failed: email is invalid)'
+      );
+      expect((error as ProblemDetailsError).problem).toEqual(validationProblem);
+      expect(getProblemDetails(error)).toEqual(validationProblem);
+      expect(getProblemDetails((error as AxiosError).response)).toEqual(validationProblem);
+    }
+  });
+
+  it('should expose problem details of accepted axios responses', async () => {
+    const client = axios.create({
+      baseURL: 'https://api.example.com',
+      adapter: createPlaywrightAdapter(createMockPlaywrightContext([problemRoute]), {
+        problemDetails: true,
+      }),
+      validateStatus: () => true,
+    });
+
+    const response = await client.post('/users', {});
+
+    expect(getProblemDetails(response)?.detail).toBe('email is invalid');
+  });
+
+  it('should read problem details from the raw body for any responseType', async () => {
+    const client = axios.create({
+      baseURL: 'https://api.example.com',
+      adapter: createPlaywrightAdapter(createMockPlaywrightContext([problemRoute]), {
+        problemDetails: true,
+      }),
+      validateStatus: () => true,
+    });
+
+    for (const responseType of ['stream', 'arraybuffer', 'text'] as const) {
+      const response = await client.post('/users', {}, { responseType });
+
+      expect(getProblemDetails(response)).toEqual(validationProblem);
+    }
+  });
+
+  it('should leave axios errors unchanged when disabled', async () => {
+    const client = axios.create({
+      baseURL: 'https://api.example.com',
+      adapter: createPlaywrightAdapter(createMockPlaywrightContext([problemRoute])),
+    });
+
+    try {
+      await client.post('/users', {});
+      expect(true).toBe(false); // Should not reach here
+    } catch (error) {
+      expect((error as AxiosError).message).toBe('Request failed with status code 422');
+      expect(getProblemDetails(error)).toBeUndefined();
+    }
+  });
+
+  it('should expose problem details of fetch responses without consuming the body', async () => {
+    const fetch = createPlaywrightFetch(createMockPlaywrightContext([problemRoute]), {
+      problemDetails: true,
+    });
+
+    const response = await fetch('https://api.example.com/users', { method: 'POST' });
+
+    expect(getProblemDetails(response)).toEqual(validationProblem);
+    expect(await response.json()).toEqual(validationProblem);
+  });
+
+  it('should not parse fetch responses when disabled', async () => {
+    const fetch = createPlaywrightFetch(createMockPlaywrightContext([problemRoute]));
+
+    const response = await fetch('https://api.example.com/users', { method: 'POST' });
+
+    expect(getProblemDetails(response)).toBeUndefined();
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'bun:test';
+import { createAPIResponse, mergeHeadersArray } from '../../src/utils/api-response';
+
+describe('mergeHeadersArray', () => {
+  it('should lower-case names and join repeated values', () => {
+    const result = mergeHeadersArray([
+      { name: 'Content-Type', value: 'application/json' },
+      { name: 'Vary', value: 'Accept' },
+      { name: 'vary', value: 'Origin' },
+      { name: 'Set-Cookie', value: 'a=1' },
+      { name: 'Set-Cookie', value: 'b=2' },
+    ]);
+
+    expect(result).toEqual({
+      'content-type': 'application/json',
+      vary: 'Accept, Origin',
+      'set-cookie': 'a=1\nb=2',
+    });
+  });
+});
+
+describe('createAPIResponse', () => {
+  it('should expose status, headers and body', async () => {
+    const response = createAPIResponse({
+      url: 'https://api.example.com/users',
+      status: 201,
+      headers: [{ name: 'Content-Type', value: 'application/json' }],
+      body: '{"id":1}',
+    });
+
+    expect(response.status()).toBe(201);
+    expect(response.statusText()).toBe('Created');
+    expect(response.ok()).toBe(true);
+    expect(response.url()).toBe('https://api.example.com/users');
+    expect(response.headers()).toEqual({ 'content-type': 'application/json' });
+    expect(response.headersArray()).toEqual([{ name: 'Content-Type', value: 'application/json' }]);
+    expect(await response.json()).toEqual({ id: 1 });
+    expect(await response.text()).toBe('{"id":1}');
+  });
+
+  it('should default to an empty 200 response', async () => {
+    const response = createAPIResponse({ url: '/' });
+
+    expect(response.status()).toBe(200);
+    expect((await response.body()).length).toBe(0);
+  });
+
+  it('should reject body reads after dispose', async () => {
+    const response = createAPIResponse({ url: '/', body: 'x' });
+
+    await response.dispose();
+
+    await expect(response.body()).rejects.toThrow('disposed');
+  });
+});
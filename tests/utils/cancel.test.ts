@@ -0,0 +1,96 @@
+import { describe, expect, it, mock } from 'bun:test';
+import { AxiosHeaders, type InternalAxiosRequestConfig } from 'axios';
+import { raceCancellation, subscribeAxiosCancel } from '../../src/utils/cancel';
+
+// Helper to create mock axios config
+function createConfig(
+  overrides: Partial<InternalAxiosRequestConfig> = {}
+): InternalAxiosRequestConfig {
+  return {
+    headers: new AxiosHeaders(),
+    ...overrides,
+  } as InternalAxiosRequestConfig;
+}
+
+describe('raceCancellation', () => {
+  it('should resolve with the task result when not canceled', async () => {
+    const result = await raceCancellation(Promise.resolve('done'), () => () => {});
+    expect(result).toBe('done');
+  });
+
+  it('should reject with the task error when not canceled', async () => {
+    await expect(
+      raceCancellation(Promise.reject(new Error('boom')), () => () => {})
+    ).rejects.toThrow('boom');
+  });
+
+  it('should reject with the cancel reason before the task settles', async () => {
+    let cancel: (reason: unknown) => void = () => {};
+    const pending = raceCancellation(new Promise(() => {}), (listener) => {
+      cancel = listener;
+      return () => {};
+    });
+
+    cancel(new Error('canceled'));
+
+    await expect(pending).rejects.toThrow('canceled');
+  });
+
+  it('should hand late results to onLateResult', async () => {
+    let resolveTask: (value: string) => void = () => {};
+    const onLateResult = mock(() => {});
+    const pending = raceCancellation(
+      new Promise<string>((resolve) => (resolveTask = resolve)),
+      (listener) => {
+        listener(new Error('canceled'));
+        return () => {};
+      },
+      onLateResult
+    );
+
+    await expect(pending).rejects.toThrow('canceled');
+    resolveTask('late');
+    await Promise.resolve();
+
+    expect(onLateResult).toHaveBeenCalledWith('late');
+  });
+
+  it('should unsubscribe once the task settles', async () => {
+    const unsubscribe = mock(() => {});
+    await raceCancellation(Promise.resolve(1), () => unsubscribe);
+    expect(unsubscribe).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('subscribeAxiosCancel', () => {
+  it('should fire when the signal aborts', () => {
+    const controller = new AbortController();
+    const listener = mock(() => {});
+
+    subscribeAxiosCancel(createConfig({ signal: controller.signal }))(listener);
+    controller.abort();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fire immediately for an already aborted signal', () => {
+    const controller = new AbortController();
+    controller.abort();
+    const listener = mock(() => {});
+
+    subscribeAxiosCancel(createConfig({ signal: controller.signal }))(listener);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop listening after unsubscribe', () => {
+    const controller = new AbortController();
+    const listener = mock(() => {});
+
+    const unsubscribe = subscribeAxiosCancel(createConfig({ signal: controller.signal }))(listener);
+    unsubscribe();
+    controller.abort();
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, it, mock } from 'bun:test';
+import type { APIRequestContext, APIResponse } from '@playwright/test';
+import { dispatchRequest } from '../../src/utils/dispatch';
+import type { PlaywrightRequest } from '../../src/types';
+
+function createMockRequestContext(
+  fetchImpl: (url: string, options: unknown) => Promise<APIResponse>
+): APIRequestContext {
+  return { fetch: mock(fetchImpl) } as unknown as APIRequestContext;
+}
+
+const mockResponse = { status: () => 200 } as unknown as APIResponse;
+
+function createRequest(): PlaywrightRequest {
+  return {
+    url: 'https://api.example.com/users',
+    options: { method: 'GET', headers: {} },
+  };
+}
+
+describe('dispatchRequest', () => {
+  it('should fetch without hooks', async () => {
+    const requestContext = createMockRequestContext(async () => mockResponse);
+
+    const response = await dispatchRequest(requestContext, createRequest());
+
+    expect(response).toBe(mockResponse);
+    expect(requestContext.fetch).toHaveBeenCalledWith('https://api.example.com/users', {
+      method: 'GET',
+      headers: {},
+    });
+  });
+
+  it('should let onRequest mutate the request in place', async () => {
+    let capturedOptions: Record<string, unknown> = {};
+    const requestContext = createMockRequestContext(async (_, options) => {
+      capturedOptions = options as Record<string, unknown>;
+      return mockResponse;
+    });
+
+    await dispatchRequest(requestContext, createRequest(), {
+      onRequest: ({ options }) => {
+        options.headers = { ...options.headers, 'X-Signature': 'abc' };
+      },
+    });
+
+    expect(capturedOptions.headers).toEqual({ 'X-Signature': 'abc' });
+  });
+
+  it('should let onRequest replace the request', async () => {
+    let capturedUrl = '';
+    const requestContext = createMockRequestContext(async (url) => {
+      capturedUrl = url;
+      return mockResponse;
+    });
+
+    await dispatchRequest(requestContext, createRequest(), {
+      onRequest: async (request) => ({ ...request, url: 'https://other.example.com/users' }),
+    });
+
+    expect(capturedUrl).toBe('https://other.example.com/users');
+  });
+
+  it('should call onResponse with the raw response and final request', async () => {
+    const requestContext = createMockRequestContext(async () => mockResponse);
+    const onResponse = mock(() => {});
+    const request = createRequest();
+
+    await dispatchRequest(requestContext, request, { onResponse });
+
+    expect(onResponse).toHaveBeenCalledWith(mockResponse, request);
+  });
+
+  it('should call onError and rethrow', async () => {
+    const failure = new Error('Network error');
+    const requestContext = createMockRequestContext(async () => {
+      throw failure;
+    });
+    const onError = mock(() => {});
+    const request = createRequest();
+
+    await expect(dispatchRequest(requestContext, request, { onError })).rejects.toThrow(
+      'Network error'
+    );
+    expect(onError).toHaveBeenCalledWith(failure, request);
+  });
+
+  it('should retry between the hooks', async () => {
+    const statuses = [503, 200];
+    const requestContext = createMockRequestContext(async () => {
+      const status = statuses.shift();
+      return { status: () => status, headers: () => ({}), dispose: async () => {} } as unknown as APIResponse;
+    });
+    const onRequest = mock(() => {});
+    const onResponse = mock((response: APIResponse) => {
+      expect(response.status()).toBe(200);
+    });
+
+    await dispatchRequest(requestContext, createRequest(), {
+      retry: { retries: 1, baseDelay: 0 },
+      onRequest,
+      onResponse,
+    });
+
+    expect(requestContext.fetch).toHaveBeenCalledTimes(2);
+    expect(onRequest).toHaveBeenCalledTimes(1);
+    expect(onResponse).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  AxiosError,
+  AxiosHeaders,
+  type AxiosResponse,
+  type InternalAxiosRequestConfig,
+} from 'axios';
+import { classifyErrorCode, settle, toAxiosError } from '../../src/utils/errors';
+
+function createConfig(
+  overrides: Partial<InternalAxiosRequestConfig> = {}
+): InternalAxiosRequestConfig {
+  return {
+    headers: new AxiosHeaders(),
+    ...overrides,
+  } as InternalAxiosRequestConfig;
+}
+
+describe('classifyErrorCode', () => {
+  it('should extract system error codes', () => {
+    expect(classifyErrorCode('connect ECONNREFUSED 127.0.0.1:3000')).toBe('ECONNREFUSED');
+    expect(classifyErrorCode('getaddrinfo ENOTFOUND api.invalid')).toBe('ENOTFOUND');
+    expect(classifyErrorCode('getaddrinfo EAI_AGAIN api.example.com')).toBe('EAI_AGAIN');
+    expect(classifyErrorCode('read ECONNRESET')).toBe('ECONNRESET');
+  });
+
+  it('should map redirect exhaustion', () => {
+    expect(classifyErrorCode('Max redirect count exceeded')).toBe(
+      AxiosError.ERR_FR_TOO_MANY_REDIRECTS
+    );
+  });
+
+  it('should map certificate errors to Node TLS codes', () => {
+    expect(classifyErrorCode('self-signed certificate')).toBe('DEPTH_ZERO_SELF_SIGNED_CERT');
+    expect(classifyErrorCode('self signed certificate in certificate chain')).toBe(
+      'SELF_SIGNED_CERT_IN_CHAIN'
+    );
+    expect(classifyErrorCode('certificate has expired')).toBe('CERT_HAS_EXPIRED');
+    expect(classifyErrorCode('unable to verify the first certificate')).toBe(
+      'UNABLE_TO_VERIFY_LEAF_SIGNATURE'
+    );
+    expect(classifyErrorCode("Hostname/IP does not match certificate's altnames")).toBe(
+      'ERR_TLS_CERT_ALTNAME_INVALID'
+    );
+    expect(classifyErrorCode('write EPROTO ... ERR_SSL_WRONG_VERSION_NUMBER')).toBe('EPROTO');
+  });
+
+  it('should fall back to ERR_NETWORK', () => {
+    expect(classifyErrorCode('socket hang up')).toBe(AxiosError.ERR_NETWORK);
+  });
+});
+
+describe('toAxiosError', () => {
+  it('should keep the message and the original error as cause', () => {
+    const original = new Error('connect ECONNREFUSED 127.0.0.1:3000');
+    const config = createConfig();
+
+    const error = toAxiosError(original, config);
+
+    expect(error).toBeInstanceOf(AxiosError);
+    expect(error.code).toBe('ECONNREFUSED');
+    expect(error.message).toBe(original.message);
+    expect(error.cause).toBe(original);
+    expect(error.config).toBe(config);
+  });
+
+  it('should map timeouts to ECONNABORTED by default', () => {
+    const error = toAxiosError(new Error('Timeout 100ms exceeded.'), createConfig({ timeout: 100 }));
+
+    expect(error.code).toBe(AxiosError.ECONNABORTED);
+    expect(error.message).toBe('timeout of 100ms exceeded');
+  });
+
+  it('should recognise Playwright TimeoutError by name', () => {
+    const timeout = new Error('Request timed out');
+    timeout.name = 'TimeoutError';
+
+    const error = toAxiosError(timeout, createConfig());
+
+    expect(error.code).toBe(AxiosError.ECONNABORTED);
+    expect(error.message).toBe('timeout exceeded');
+  });
+
+  it('should honor clarifyTimeoutError and timeoutErrorMessage', () => {
+    const error = toAxiosError(
+      new Error('Timeout 100ms exceeded.'),
+      createConfig({
+        timeout: 100,
+        timeoutErrorMessage: 'Too slow',
+        transitional: { clarifyTimeoutError: true },
+      })
+    );
+
+    expect(error.code).toBe(AxiosError.ETIMEDOUT);
+    expect(error.message).toBe('Too slow');
+  });
+
+  it('should wrap non-Error values', () => {
+    const error = toAxiosError('boom', createConfig());
+
+    expect(error.code).toBe(AxiosError.ERR_NETWORK);
+    expect(error.message).toBe('boom');
+    expect(error.cause).toBe('boom');
+  });
+});
+
+describe('settle', () => {
+  function createResponse(
+    status: number,
+    validateStatus?: InternalAxiosRequestConfig['validateStatus']
+  ): AxiosResponse {
+    return {
+      data: null,
+      status,
+      statusText: '',
+      headers: {},
+      config: createConfig({ validateStatus }),
+      request: { method: 'GET', url: '/users', headers: {} },
+    };
+  }
+
+  const isSuccess = (status: number) => status >= 200 && status < 300;
+
+  it('should resolve statuses validateStatus accepts', () => {
+    const response = createResponse(200, isSuccess);
+
+    expect(settle(response)).toBe(response);
+  });
+
+  it('should resolve without validateStatus or status', () => {
+    expect(settle(createResponse(500))).toBeDefined();
+    expect(settle(createResponse(0, isSuccess))).toBeDefined();
+  });
+
+  it('should reject 4xx with ERR_BAD_REQUEST and 5xx with ERR_BAD_RESPONSE', () => {
+    expect(() => settle(createResponse(404, isSuccess))).toThrow(
+      expect.objectContaining({ code: AxiosError.ERR_BAD_REQUEST })
+    );
+    expect(() => settle(createResponse(502, isSuccess))).toThrow(
+      expect.objectContaining({ code: AxiosError.ERR_BAD_RESPONSE })
+    );
+  });
+
+  it('should leave the code undefined for other statuses, like axios', () => {
+    const response = createResponse(304, isSuccess);
+
+    try {
+      settle(response);
+      expect(true).toBe(false); // Should not reach here
+    } catch (error) {
+      expect((error as AxiosError).code).toBeUndefined();
+      expect((error as AxiosError).request).toBe(response.request);
+      expect((error as AxiosError).response).toBe(response);
+    }
+  });
+});
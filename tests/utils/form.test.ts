@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'bun:test';
+import { encodeForm, getFormEntries, groupFields, toForm } from '../../src/utils/form';
+
+describe('toForm', () => {
+  it('should build a record for unique names', () => {
+    expect(toForm([['name', 'john'], ['age', 30], ['active', true], ['skipped', null]])).toEqual({
+      name: 'john',
+      age: 30,
+      active: true,
+    });
+  });
+
+  it('should build a FormData for repeated names', () => {
+    const form = toForm([['tag', 'a'], ['tag', 'b'], ['page', 2]]);
+
+    expect(form).toBeInstanceOf(FormData);
+    expect(getFormEntries(form)).toEqual([
+      ['tag', 'a'],
+      ['tag', 'b'],
+      ['page', '2'],
+    ]);
+  });
+});
+
+describe('encodeForm', () => {
+  it('should encode records and FormData with repeated names', () => {
+    expect(encodeForm({ q: 'a b', page: 1 })).toBe('q=a+b&page=1');
+    expect(encodeForm(toForm([['tag', 'a'], ['tag', 'b']]))).toBe('tag=a&tag=b');
+  });
+});
+
+describe('groupFields', () => {
+  it('should turn repeated names into arrays', () => {
+    expect(groupFields([['tag', 'a'], ['q', 'x'], ['tag', 'b'], ['tag', 'c']])).toEqual({
+      tag: ['a', 'b', 'c'],
+      q: 'x',
+    });
+  });
+});
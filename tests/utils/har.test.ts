@@ -0,0 +1,292 @@
+import { afterAll, describe, expect, it } from 'bun:test';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createAPIResponse } from '../../src/utils/api-response';
+import {
+  assertSingleRecorder,
+  createHarEntry,
+  findHarEntry,
+  harEntryToAPIResponse,
+  recordHarEntry,
+} from '../../src/utils/har';
+import type { HarLog, PlaywrightRequest } from '../../src/types';
+
+const TEXT_HEADERS = [{ name: 'content-type', value: 'text/plain' }];
+
+const tempDir = mkdtempSync(join(tmpdir(), 'har-test-'));
+
+afterAll(() => {
+  rmSync(tempDir, { recursive: true, force: true });
+});
+
+function createRequest(
+  url: string,
+  options: PlaywrightRequest['options'] = { method: 'GET' }
+): PlaywrightRequest {
+  return { url, options };
+}
+
+describe('createHarEntry', () => {
+  it('should record request and text response', async () => {
+    const request = createRequest('https://api.example.com/users', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer secret' },
+      data: { name: 'John' },
+    });
+    const response = createAPIResponse({
+      url: 'https://api.example.com/users',
+      status: 201,
+      headers: [{ name: 'content-type', value: 'application/json' }],
+      body: '{"id":1}',
+    });
+
+    const entry = await createHarEntry(request, response, Date.now());
+
+    expect(entry.request.method).toBe('POST');
+    expect(entry.request.postData).toEqual({ mimeType: 'application/json', text: '{"name":"John"}' });
+    expect(entry.request.headers).toContainEqual({ name: 'Authorization', value: '[REDACTED]' });
+    expect(entry.response.status).toBe(201);
+    expect(entry.response.content).toEqual({
+      size: 8,
+      mimeType: 'application/json',
+      text: '{"id":1}',
+    });
+  });
+
+  it('should redact the request body and keep the response as received', async () => {
+    const request = createRequest('https://api.example.com/login', {
+      method: 'POST',
+      data: { user: 'john', password: 'hunter2' },
+    });
+    const response = createAPIResponse({
+      url: 'https://api.example.com/login',
+      headers: [
+        { name: 'content-type', value: 'application/json' },
+        { name: 'set-cookie', value: 'sid=SECRET; Path=/' },
+      ],
+      body: '{"token":"abc","user":"john"}',
+    });
+
+    const entry = await createHarEntry(request, response, Date.now(), {
+      jsonPaths: ['$.password', '$.token'],
+    });
+
+    expect(JSON.parse(entry.request.postData!.text)).toEqual({
+      user: 'john',
+      password: '[REDACTED]',
+    });
+    expect(entry.response.headers).toContainEqual({
+      name: 'set-cookie',
+      value: 'sid=SECRET; Path=/',
+    });
+    expect(entry.response.content.text).toBe('{"token":"abc","user":"john"}');
+  });
+
+  it('should apply redaction patterns to form fields', async () => {
+    const request = createRequest('/login', {
+      method: 'POST',
+      form: { user: 'john', pin: '1234' },
+    });
+    const response = createAPIResponse({ url: '/login', headers: TEXT_HEADERS, body: 'ok' });
+
+    const entry = await createHarEntry(request, response, Date.now(), { patterns: [/1234/] });
+
+    expect(entry.request.postData?.text).toBe('user=john&pin=[REDACTED]');
+  });
+
+  it('should base64 encode binary responses', async () => {
+    const response = createAPIResponse({
+      url: '/image',
+      headers: [{ name: 'content-type', value: 'image/png' }],
+      body: Buffer.from([0x89, 0x50]),
+    });
+
+    const entry = await createHarEntry(createRequest('/image'), response, Date.now());
+
+    expect(entry.response.content.encoding).toBe('base64');
+    expect(entry.response.content.text).toBe('iVA=');
+  });
+});
+
+describe('recordHarEntry / findHarEntry', () => {
+  it('should write a HAR file that can be replayed', async () => {
+    const harPath = join(tempDir, 'nested', 'record.har');
+    const request = createRequest('https://api.example.com/users');
+    const response = createAPIResponse({
+      url: 'https://api.example.com/users',
+      headers: [{ name: 'content-type', value: 'application/json' }],
+      body: '[]',
+    });
+
+    recordHarEntry(harPath, await createHarEntry(request, response, Date.now()));
+
+    const log = JSON.parse(readFileSync(harPath, 'utf8')) as HarLog;
+    expect(log.log.version).toBe('1.2');
+    expect(log.log.creator).toEqual({
+      name: '@iskyex/axios-playwright-adapter',
+      version: expect.any(String),
+    });
+    expect(log.log.entries).toHaveLength(1);
+
+    const entry = findHarEntry(harPath, request);
+    expect(entry?.response.content.text).toBe('[]');
+  });
+
+  it('should serve repeated requests in recorded order, then repeat the last', async () => {
+    const harPath = join(tempDir, 'sequence.har');
+    const request = createRequest('https://api.example.com/counter');
+    const entries = await Promise.all(
+      ['1', '2'].map((body) =>
+        createHarEntry(
+          request,
+          createAPIResponse({ url: request.url, headers: TEXT_HEADERS, body }),
+          Date.now()
+        )
+      )
+    );
+    writeFileSync(
+      harPath,
+      JSON.stringify({ log: { version: '1.2', creator: { name: 't', version: '1' }, entries } })
+    );
+
+    const served = [1, 2, 3].map(() => findHarEntry(harPath, request)?.response.content.text);
+
+    expect(served).toEqual(['1', '2', '2']);
+  });
+
+  it('should prefer entries with the same request body', async () => {
+    const harPath = join(tempDir, 'bodies.har');
+    const entries = await Promise.all(
+      ['a', 'b'].map((data) =>
+        createHarEntry(
+          createRequest('/search', { method: 'POST', data }),
+          createAPIResponse({ url: '/search', headers: TEXT_HEADERS, body: `result-${data}` }),
+          Date.now()
+        )
+      )
+    );
+    writeFileSync(
+      harPath,
+      JSON.stringify({ log: { version: '1.2', creator: { name: 't', version: '1' }, entries } })
+    );
+
+    const entry = findHarEntry(harPath, createRequest('/search', { method: 'POST', data: 'b' }));
+
+    expect(entry?.response.content.text).toBe('result-b');
+  });
+
+  it('should append to a file recorded by an earlier process', async () => {
+    const harPath = join(tempDir, 'restarted.har');
+    const createEntry = (url: string) =>
+      createHarEntry(
+        createRequest(url),
+        createAPIResponse({ url, headers: TEXT_HEADERS, body: url }),
+        Date.now()
+      );
+    const entries = [await createEntry('/before')];
+    writeFileSync(
+      harPath,
+      JSON.stringify({ log: { version: '1.2', creator: { name: 't', version: '1' }, entries } })
+    );
+
+    recordHarEntry(harPath, await createEntry('/after'));
+
+    const log = JSON.parse(readFileSync(harPath, 'utf8')) as HarLog;
+    expect(log.log.entries.map((entry) => entry.request.url)).toEqual(['/before', '/after']);
+  });
+
+  it('should replay entries recorded after the file was first read', async () => {
+    const harPath = join(tempDir, 'rerecord.har');
+    const record = async (url: string) =>
+      recordHarEntry(
+        harPath,
+        await createHarEntry(
+          createRequest(url),
+          createAPIResponse({ url, headers: TEXT_HEADERS, body: url }),
+          Date.now()
+        )
+      );
+
+    await record('/first');
+    expect(findHarEntry(harPath, createRequest('/first'))).toBeDefined();
+    await record('/second');
+
+    expect(findHarEntry(harPath, createRequest('/second'))?.response.content.text).toBe('/second');
+  });
+
+  it('should match request bodies the way they were redacted', async () => {
+    const harPath = join(tempDir, 'redacted.har');
+    const redaction = { jsonPaths: ['$.password'] };
+    const entries = await Promise.all(
+      ['alice', 'bob'].map((user) =>
+        createHarEntry(
+          createRequest('/login', { method: 'POST', data: { user, password: 'secret' } }),
+          createAPIResponse({ url: '/login', headers: TEXT_HEADERS, body: user }),
+          Date.now(),
+          redaction
+        )
+      )
+    );
+    writeFileSync(
+      harPath,
+      JSON.stringify({ log: { version: '1.2', creator: { name: 't', version: '1' }, entries } })
+    );
+
+    const entry = findHarEntry(
+      harPath,
+      createRequest('/login', { method: 'POST', data: { user: 'bob', password: 'other' } }),
+      undefined,
+      redaction
+    );
+
+    expect(entry?.response.content.text).toBe('bob');
+  });
+
+  it('should return undefined when nothing matches', () => {
+    const harPath = join(tempDir, 'empty.har');
+    writeFileSync(
+      harPath,
+      JSON.stringify({ log: { version: '1.2', creator: { name: 't', version: '1' }, entries: [] } })
+    );
+
+    expect(findHarEntry(harPath, createRequest('/missing'))).toBeUndefined();
+  });
+});
+
+describe('assertSingleRecorder', () => {
+  it('should refuse to record from a second Playwright worker', () => {
+    const previous = process.env.TEST_PARALLEL_INDEX;
+    try {
+      process.env.TEST_PARALLEL_INDEX = '0';
+      expect(() => assertSingleRecorder('users.har')).not.toThrow();
+
+      process.env.TEST_PARALLEL_INDEX = '1';
+      expect(() => assertSingleRecorder('users.har')).toThrow(
+        'Recording to users.har needs a single Playwright worker'
+      );
+    } finally {
+      if (previous === undefined) delete process.env.TEST_PARALLEL_INDEX;
+      else process.env.TEST_PARALLEL_INDEX = previous;
+    }
+  });
+});
+
+describe('harEntryToAPIResponse', () => {
+  it('should decode base64 content', async () => {
+    const entry = await createHarEntry(
+      createRequest('/bin'),
+      createAPIResponse({
+        url: '/bin',
+        headers: [{ name: 'content-type', value: 'application/octet-stream' }],
+        body: Buffer.from([1, 2, 3]),
+      }),
+      Date.now()
+    );
+
+    const response = harEntryToAPIResponse(entry);
+
+    expect([...(await response.body())]).toEqual([1, 2, 3]);
+    expect(response.headers()['content-type']).toBe('application/octet-stream');
+  });
+});
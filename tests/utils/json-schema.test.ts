@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'bun:test';
+import { validateJSONSchema, type JSONSchema } from '../../src/utils/json-schema';
+
+const userSchema: JSONSchema = {
+  type: 'object',
+  required: ['id', 'name'],
+  properties: {
+    id: { type: 'integer', minimum: 1 },
+    name: { type: 'string', minLength: 1 },
+    email: { type: 'string', pattern: '^[^@]+@[^@]+$' },
+    role: { enum: ['admin', 'user'] },
+    tags: { type: 'array', items: { type: 'string' }, maxItems: 3 },
+  },
+  additionalProperties: false,
+};
+
+describe('validateJSONSchema', () => {
+  it('should accept a valid value', () => {
+    const errors = validateJSONSchema(
+      { id: 1, name: 'John', email: 'john@example.com', role: 'admin', tags: ['a'] },
+      userSchema
+    );
+    expect(errors).toEqual([]);
+  });
+
+  it('should report type mismatches', () => {
+    expect(validateJSONSchema('text', { type: 'object' })).toEqual([
+      { path: '$', message: 'expected object, received string' },
+    ]);
+  });
+
+  it('should treat integers as numbers', () => {
+    expect(validateJSONSchema(3, { type: 'number' })).toEqual([]);
+    expect(validateJSONSchema(3.5, { type: 'integer' })).toHaveLength(1);
+  });
+
+  it('should report missing required and extra properties with paths', () => {
+    const errors = validateJSONSchema({ id: 0, extra: true }, userSchema);
+
+    expect(errors).toContainEqual({ path: '$.name', message: 'is required' });
+    expect(errors).toContainEqual({ path: '$.extra', message: 'is not allowed' });
+    expect(errors).toContainEqual({ path: '$.id', message: 'expected >= 1' });
+  });
+
+  it('should validate array items', () => {
+    const errors = validateJSONSchema({ id: 1, name: 'a', tags: ['a', 2] }, userSchema);
+    expect(errors).toEqual([{ path: '$.tags[1]', message: 'expected string, received integer' }]);
+  });
+
+  it('should validate enum, const and pattern', () => {
+    expect(validateJSONSchema('guest', { enum: ['admin', 'user'] })).toHaveLength(1);
+    expect(validateJSONSchema(2, { const: 1 })).toHaveLength(1);
+    expect(validateJSONSchema('nope', { type: 'string', pattern: '^\\d+$' })).toHaveLength(1);
+  });
+
+  it('should support anyOf, oneOf, allOf and not', () => {
+    expect(validateJSONSchema(null, { anyOf: [{ type: 'string' }, { type: 'null' }] })).toEqual([]);
+    expect(validateJSONSchema(1, { oneOf: [{ type: 'number' }, { type: 'integer' }] })).toHaveLength(1);
+    expect(validateJSONSchema('a', { allOf: [{ type: 'string' }, { maxLength: 0 }] })).toHaveLength(1);
+    expect(validateJSONSchema('a', { not: { type: 'string' } })).toHaveLength(1);
+  });
+});
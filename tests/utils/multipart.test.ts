@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'bun:test';
+import { createReadStream, mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Readable } from 'node:stream';
+import {
+  getMultipartEntries,
+  isReadStreamLike,
+  toFilePayload,
+  toMultipart,
+} from '../../src/utils/multipart';
+
+describe('toFilePayload', () => {
+  it('should read a File with its name and type', async () => {
+    const file = new File(['hello'], 'hello.pdf', { type: 'application/pdf' });
+
+    expect(await toFilePayload(file)).toEqual({
+      name: 'hello.pdf',
+      mimeType: 'application/pdf',
+      buffer: Buffer.from('hello'),
+    });
+  });
+
+  it('should default the name and type of a Blob', async () => {
+    expect(await toFilePayload(new Blob([new Uint8Array([1, 2])]))).toEqual({
+      name: 'blob',
+      mimeType: 'application/octet-stream',
+      buffer: Buffer.from([1, 2]),
+    });
+  });
+
+  it('should read an fs.ReadStream, named after its path', async () => {
+    const path = join(mkdtempSync(join(tmpdir(), 'multipart-')), 'report.csv');
+    writeFileSync(path, 'a,b\n1,2\n');
+
+    expect(await toFilePayload(createReadStream(path))).toEqual({
+      name: 'report.csv',
+      mimeType: 'application/octet-stream',
+      buffer: Buffer.from('a,b\n1,2\n'),
+    });
+  });
+});
+
+describe('isReadStreamLike', () => {
+  it('should accept readable streams only', () => {
+    expect(isReadStreamLike(Readable.from(['a']))).toBe(true);
+    expect(isReadStreamLike(new Blob(['a']))).toBe(false);
+    expect(isReadStreamLike({ on() {} })).toBe(false);
+  });
+});
+
+describe('toMultipart', () => {
+  it('should build a record for unique names', async () => {
+    const multipart = await toMultipart([
+      ['name', 'John'],
+      ['age', 30],
+      ['skipped', undefined],
+      ['file', { name: 'a.bin', mimeType: '', buffer: new Uint8Array([1]) }],
+      ['stream', Readable.from([Buffer.from('chunk')])],
+    ]);
+
+    expect(multipart).toEqual({
+      name: 'John',
+      age: 30,
+      file: { name: 'a.bin', mimeType: 'application/octet-stream', buffer: Buffer.from([1]) },
+      stream: { name: 'blob', mimeType: 'application/octet-stream', buffer: Buffer.from('chunk') },
+    });
+  });
+
+  it('should build a FormData for repeated names', async () => {
+    const multipart = await toMultipart([
+      ['tag', 'a'],
+      ['tag', 'b'],
+      ['files[]', new File(['1'], 'one.pdf', { type: 'application/pdf' })],
+    ]);
+
+    expect(multipart).toBeInstanceOf(FormData);
+    const entries = getMultipartEntries(multipart);
+    expect(entries.map(([name]) => name)).toEqual(['tag', 'tag', 'files[]']);
+    expect(entries[1][1]).toBe('b');
+    const file = entries[2][1] as File;
+    expect(file.name).toBe('one.pdf');
+    expect(file.type).toBe('application/pdf');
+    expect(await file.text()).toBe('1');
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'bun:test';
+import axios, { AxiosHeaders, type InternalAxiosRequestConfig } from 'axios';
+import { appendParams, encodeParam, flattenParams, serializeParams } from '../../src/utils/params';
+
+function createConfig(
+  overrides: Partial<InternalAxiosRequestConfig> = {}
+): InternalAxiosRequestConfig {
+  return {
+    headers: new AxiosHeaders(),
+    ...overrides,
+  } as InternalAxiosRequestConfig;
+}
+
+describe('encodeParam', () => {
+  it('should keep the characters axios leaves unescaped', () => {
+    expect(encodeParam('a b:$,[]&=ä')).toBe('a+b:$,%5B%5D%26%3D%C3%A4');
+  });
+});
+
+describe('flattenParams', () => {
+  it('should use bracket array keys by default', () => {
+    expect(flattenParams({ ids: [1, null, 2] })).toEqual([
+      ['ids[]', 1],
+      ['ids[]', 2],
+    ]);
+  });
+
+  it('should support index and repeat array formats', () => {
+    expect(flattenParams({ ids: [1, 2] }, { indexes: true })).toEqual([
+      ['ids[0]', 1],
+      ['ids[1]', 2],
+    ]);
+    expect(flattenParams({ ids: [1, 2] }, { indexes: null })).toEqual([
+      ['ids', 1],
+      ['ids', 2],
+    ]);
+  });
+
+  it('should flatten nested objects and arrays of objects', () => {
+    expect(flattenParams({ filter: { role: 'admin', tags: ['a'] }, items: [{ id: 1 }] })).toEqual([
+      ['filter[role]', 'admin'],
+      ['filter[tags][0]', 'a'],
+      ['items[0][id]', 1],
+    ]);
+    expect(flattenParams({ filter: { role: 'admin' } }, { dots: true })).toEqual([
+      ['filter.role', 'admin'],
+    ]);
+  });
+
+  it('should stringify meta token keys and convert Dates', () => {
+    expect(flattenParams({ 'meta{}': { a: 1 }, since: new Date(0) })).toEqual([
+      ['meta{}', '{"a":1}'],
+      ['since', '1970-01-01T00:00:00.000Z'],
+    ]);
+    expect(flattenParams({ 'meta{}': { a: 1 } }, { metaTokens: false })).toEqual([
+      ['meta', '{"a":1}'],
+    ]);
+  });
+});
+
+describe('serializeParams', () => {
+  it('should call a custom serializer function or serialize option', () => {
+    const serialize = (params: Record<string, unknown>) => `custom=${params.a}`;
+
+    expect(serializeParams({ a: 1 }, serialize)).toBe('custom=1');
+    expect(serializeParams({ a: 1 }, { serialize })).toBe('custom=1');
+  });
+
+  it('should call a custom encoder with the default one', () => {
+    const encode = (value: unknown, defaultEncoder: (value: unknown) => string) =>
+      defaultEncoder(value).toUpperCase();
+
+    expect(serializeParams({ name: 'john doe' }, { encode })).toBe('NAME=JOHN+DOE');
+  });
+});
+
+describe('appendParams', () => {
+  const cases: Array<Partial<InternalAxiosRequestConfig>> = [
+    { url: '/users', params: { ids: [1, 2, 3] } },
+    { url: '/users?sort=name#top', params: { q: 'a b', symbols: 'ä:$,[]' } },
+    { url: '/users', params: { filter: { name: 'x', tags: ['a', 'b'], deep: { k: 1 } } } },
+    { url: '/users', params: { 'a[]': 'x', 'b[]': [1, 2], 'j{}': { k: 1 }, n: null, t: true } },
+    { url: '/users', params: { since: new Date(0), nested: [[1], [2]] } },
+    { url: '/users', params: { ids: [1, 2] }, paramsSerializer: { indexes: true } },
+    { url: '/users', params: { ids: [1, 2] }, paramsSerializer: { indexes: null } },
+    {
+      url: '/users',
+      params: { f: { a: 1 }, ids: [1] },
+      paramsSerializer: { dots: true, indexes: true },
+    },
+    { url: '/users', params: new URLSearchParams([['a', '1'], ['a', '2']]) },
+    { url: '/users', params: {} },
+  ];
+
+  for (const overrides of cases) {
+    it(`should match axios.getUri for ${JSON.stringify(overrides.params)}`, () => {
+      const config = createConfig(overrides);
+      expect(appendParams(config.url ?? '', config)).toBe(axios.getUri(config));
+    });
+  }
+});
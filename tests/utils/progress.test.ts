@@ -0,0 +1,96 @@
+import { describe, expect, it, mock } from 'bun:test';
+import type { APIResponse } from '@playwright/test';
+import {
+  createProgressEvent,
+  emitProgressComplete,
+  emitProgressStart,
+  getRequestBodySize,
+  getResponseContentLength,
+} from '../../src/utils/progress';
+
+function createMockResponse(headers: Record<string, string>): APIResponse {
+  return { headers: () => headers } as unknown as APIResponse;
+}
+
+describe('getRequestBodySize', () => {
+  it('should return undefined without a body', () => {
+    expect(getRequestBodySize({ method: 'GET' })).toBeUndefined();
+  });
+
+  it('should measure string bodies in bytes', () => {
+    expect(getRequestBodySize({ data: 'héllo' })).toBe(6);
+  });
+
+  it('should measure Buffer bodies', () => {
+    expect(getRequestBodySize({ data: Buffer.alloc(42) })).toBe(42);
+  });
+
+  it('should measure JSON bodies as serialized', () => {
+    expect(getRequestBodySize({ data: { a: 1 } })).toBe('{"a":1}'.length);
+  });
+
+  it('should measure form bodies as urlencoded', () => {
+    expect(getRequestBodySize({ form: { a: 'b c', d: 1 } })).toBe('a=b+c&d=1'.length);
+  });
+
+  it('should measure multipart payloads', () => {
+    const size = getRequestBodySize({
+      multipart: {
+        name: 'John',
+        file: { name: 'a.txt', mimeType: 'text/plain', buffer: Buffer.alloc(10) },
+      },
+    });
+    expect(size).toBe(14);
+  });
+});
+
+describe('getResponseContentLength', () => {
+  it('should read the content-length header', () => {
+    expect(getResponseContentLength(createMockResponse({ 'content-length': '128' }))).toBe(128);
+  });
+
+  it('should return undefined when missing or invalid', () => {
+    expect(getResponseContentLength(createMockResponse({}))).toBeUndefined();
+    expect(getResponseContentLength(createMockResponse({ 'content-length': 'abc' }))).toBeUndefined();
+  });
+});
+
+describe('createProgressEvent', () => {
+  it('should compute progress when total is known', () => {
+    const event = createProgressEvent('upload', 50, 100, 50);
+
+    expect(event).toEqual({
+      loaded: 50,
+      total: 100,
+      progress: 0.5,
+      bytes: 50,
+      upload: true,
+      lengthComputable: true,
+    });
+  });
+
+  it('should leave progress undefined when total is unknown', () => {
+    const event = createProgressEvent('download', 10, undefined, 10);
+
+    expect(event.progress).toBeUndefined();
+    expect(event.lengthComputable).toBe(false);
+    expect(event.download).toBe(true);
+  });
+});
+
+describe('emitProgressStart / emitProgressComplete', () => {
+  it('should emit boundary events', () => {
+    const listener = mock(() => {});
+
+    emitProgressStart(listener, 'download', 20);
+    emitProgressComplete(listener, 'download', 20, 20);
+
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(listener.mock.calls[0]).toEqual([createProgressEvent('download', 0, 20, 0)]);
+    expect(listener.mock.calls[1]).toEqual([createProgressEvent('download', 20, 20, 20)]);
+  });
+
+  it('should ignore a missing listener', () => {
+    expect(() => emitProgressStart(undefined, 'upload', 1)).not.toThrow();
+  });
+});
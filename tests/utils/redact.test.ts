@@ -0,0 +1,154 @@
+import { describe, expect, it } from 'bun:test';
+import { redactBody, redactExchange, redactHeaders, redactUrl } from '../../src/utils/redact';
+import type { ExchangeRecord } from '../../src/types';
+
+function createRecord(overrides: Partial<ExchangeRecord> = {}): ExchangeRecord {
+  return {
+    method: 'POST',
+    url: 'https://api.example.com/login?token=abc123',
+    startedAt: new Date(0).toISOString(),
+    durationMs: 5,
+    request: {
+      headers: { Authorization: 'Bearer secret', Accept: 'application/json' },
+      body: { username: 'john', password: 'hunter2' },
+    },
+    response: {
+      status: 200,
+      statusText: 'OK',
+      headers: { 'Set-Cookie': 'session=abc', 'content-type': 'application/json' },
+      body: '{"accessToken":"xyz","user":{"id":1}}',
+    },
+    ...overrides,
+  };
+}
+
+describe('redactHeaders', () => {
+  it('should redact default sensitive headers case-insensitively', () => {
+    const result = redactHeaders({
+      Authorization: 'Bearer secret',
+      Cookie: 'session=abc',
+      'Set-Cookie': 'session=abc',
+      'X-API-Key': 'key',
+      Accept: 'application/json',
+    });
+
+    expect(result).toEqual({
+      Authorization: '[REDACTED]',
+      Cookie: '[REDACTED]',
+      'Set-Cookie': '[REDACTED]',
+      'X-API-Key': '[REDACTED]',
+      Accept: 'application/json',
+    });
+  });
+
+  it('should redact additional headers on top of the defaults', () => {
+    const result = redactHeaders(
+      { 'X-Session-Token': 'abc', Authorization: 'Bearer x' },
+      { headers: ['x-session-token'] }
+    );
+
+    expect(result).toEqual({ 'X-Session-Token': '[REDACTED]', Authorization: '[REDACTED]' });
+  });
+
+  it('should apply patterns and a custom replacement to other headers', () => {
+    const result = redactHeaders(
+      { 'X-Trace': 'user=john@example.com' },
+      { patterns: [/[\w.]+@[\w.]+/], replacement: '***' }
+    );
+
+    expect(result).toEqual({ 'X-Trace': 'user=***' });
+  });
+
+  it('should handle missing headers', () => {
+    expect(redactHeaders(undefined)).toEqual({});
+  });
+});
+
+describe('redactBody', () => {
+  it('should redact JSON paths in objects', () => {
+    const result = redactBody(
+      { user: { token: 'abc', name: 'John' }, items: [{ secret: 1 }, { secret: 2 }] },
+      { jsonPaths: ['user.token', 'items[*].secret'] }
+    );
+
+    expect(result).toEqual({
+      user: { token: '[REDACTED]', name: 'John' },
+      items: [{ secret: '[REDACTED]' }, { secret: '[REDACTED]' }],
+    });
+  });
+
+  it('should accept $-prefixed paths', () => {
+    expect(redactBody({ a: { b: 1 } }, { jsonPaths: ['$.a.b'] })).toEqual({
+      a: { b: '[REDACTED]' },
+    });
+  });
+
+  it('should not mutate the original body', () => {
+    const body = { password: 'hunter2' };
+    redactBody(body, { jsonPaths: ['password'] });
+    expect(body.password).toBe('hunter2');
+  });
+
+  it('should redact JSON held in strings', () => {
+    const result = redactBody('{"password":"hunter2"}', { jsonPaths: ['password'] });
+    expect(result).toBe('{"password":"[REDACTED]"}');
+  });
+
+  it('should apply patterns to plain strings and nested values', () => {
+    expect(redactBody('key=sk_live_123', { patterns: [/sk_live_\w+/] })).toBe('key=[REDACTED]');
+    expect(redactBody({ list: ['sk_live_1'] }, { patterns: [/sk_live_\w+/] })).toEqual({
+      list: ['[REDACTED]'],
+    });
+  });
+
+  it('should leave non-object bodies untouched by paths', () => {
+    expect(redactBody(undefined, { jsonPaths: ['a'] })).toBeUndefined();
+    expect(redactBody('[binary 4 bytes]', { jsonPaths: ['a'] })).toBe('[binary 4 bytes]');
+  });
+});
+
+describe('redactUrl', () => {
+  it('should redact query params named by JSON paths and keep the rest as encoded', () => {
+    const url = 'https://h/x?api_key=SECRET&filter%5Btoken%5D=t&ids%5B%5D=1&ids%5B%5D=2&q=a+b#top';
+
+    expect(redactUrl(url, { jsonPaths: ['api_key', 'filter.token', 'ids'] })).toBe(
+      'https://h/x?api_key=[REDACTED]&filter%5Btoken%5D=[REDACTED]&ids%5B%5D=[REDACTED]' +
+        '&ids%5B%5D=[REDACTED]&q=a+b#top'
+    );
+  });
+
+  it('should apply patterns and leave URLs without a query alone', () => {
+    expect(redactUrl('/users/sk_live_1', { patterns: [/sk_live_\w+/] })).toBe('/users/[REDACTED]');
+    expect(redactUrl('/users', { jsonPaths: ['token'] })).toBe('/users');
+  });
+});
+
+describe('redactExchange', () => {
+  it('should apply secure defaults without options', () => {
+    const result = redactExchange(createRecord());
+
+    expect(result.request.headers.Authorization).toBe('[REDACTED]');
+    expect(result.response?.headers['Set-Cookie']).toBe('[REDACTED]');
+    expect(result.request.body).toEqual({ username: 'john', password: 'hunter2' });
+  });
+
+  it('should redact URL, bodies and headers with the full policy', () => {
+    const result = redactExchange(createRecord(), {
+      jsonPaths: ['password', 'accessToken'],
+      patterns: [/token=\w+/],
+    });
+
+    expect(result.url).toBe('https://api.example.com/login?[REDACTED]');
+    expect(result.request.body).toEqual({ username: 'john', password: '[REDACTED]' });
+    expect(result.response?.body).toBe('{"accessToken":"[REDACTED]","user":{"id":1}}');
+  });
+
+  it('should run the custom redact function last', () => {
+    const result = redactExchange(createRecord(), {
+      redact: (record) => ({ ...record, url: 'hidden' }),
+    });
+
+    expect(result.url).toBe('hidden');
+    expect(result.request.headers.Authorization).toBe('[REDACTED]');
+  });
+});
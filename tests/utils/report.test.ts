@@ -0,0 +1,155 @@
+import { describe, expect, it, mock } from 'bun:test';
+import type { TestInfo } from '@playwright/test';
+import { Readable } from 'node:stream';
+import {
+  attachExchange,
+  createExchangeRecord,
+  describeBody,
+  describeRequestBody,
+} from '../../src/utils/report';
+import type { PlaywrightRequest } from '../../src/types';
+
+function createMockTestInfo(): TestInfo {
+  return { attach: mock(async () => {}) } as unknown as TestInfo;
+}
+
+function createRequest(overrides: Partial<PlaywrightRequest['options']> = {}): PlaywrightRequest {
+  return {
+    url: 'https://api.example.com/users',
+    options: { method: 'POST', headers: { 'Content-Type': 'application/json' }, ...overrides },
+  };
+}
+
+describe('describeBody', () => {
+  it('should keep short strings and objects', () => {
+    expect(describeBody('hello', 'text/plain')).toBe('hello');
+    expect(describeBody({ id: 1 }, 'application/json')).toEqual({ id: 1 });
+  });
+
+  it('should truncate long strings', () => {
+    const result = describeBody('a'.repeat(20), 'text/plain', 5);
+    expect(result).toBe('aaaaa… [truncated 15 chars]');
+  });
+
+  it('should truncate large objects as JSON', () => {
+    const result = describeBody({ value: 'a'.repeat(20) }, 'application/json', 10);
+    expect(typeof result).toBe('string');
+    expect(result as string).toContain('[truncated');
+  });
+
+  it('should decode textual buffers', () => {
+    expect(describeBody(Buffer.from('{"a":1}'), 'application/problem+json')).toBe('{"a":1}');
+  });
+
+  it('should summarize binary buffers, blobs and streams', () => {
+    expect(describeBody(Buffer.alloc(4), 'image/png')).toBe('[binary 4 bytes]');
+    expect(describeBody(new Blob(['abc']), undefined)).toBe('[blob 3 bytes]');
+    expect(describeBody(Readable.from([]), undefined)).toBe('[stream]');
+  });
+});
+
+describe('describeRequestBody', () => {
+  it('should describe multipart files', () => {
+    const result = describeRequestBody({
+      multipart: {
+        name: 'John',
+        avatar: { name: 'a.png', mimeType: 'image/png', buffer: Buffer.alloc(8) },
+      },
+    });
+
+    expect(result).toEqual({ name: 'John', avatar: '[file a.png (image/png, 8 bytes)]' });
+  });
+
+  it('should return form fields as-is', () => {
+    expect(describeRequestBody({ form: { a: 'b' } })).toEqual({ a: 'b' });
+  });
+});
+
+describe('createExchangeRecord', () => {
+  it('should record request and response', () => {
+    const record = createExchangeRecord(
+      createRequest({ data: { name: 'John' }, headers: { Authorization: 'Bearer x' } }),
+      Date.now(),
+      {
+        response: {
+          status: 201,
+          statusText: 'Created',
+          headers: { 'content-type': 'application/json', 'set-cookie': 'a=b' },
+          body: { id: 1 },
+        },
+      }
+    );
+
+    expect(record.method).toBe('POST');
+    expect(record.url).toBe('https://api.example.com/users');
+    expect(record.durationMs).toBeGreaterThanOrEqual(0);
+    expect(record.request.headers).toEqual({ Authorization: '[REDACTED]' });
+    expect(record.request.body).toEqual({ name: 'John' });
+    expect(record.response).toEqual({
+      status: 201,
+      statusText: 'Created',
+      headers: { 'content-type': 'application/json', 'set-cookie': '[REDACTED]' },
+      body: { id: 1 },
+    });
+  });
+
+  it('should apply the redaction policy before truncating bodies', () => {
+    const record = createExchangeRecord(
+      createRequest({ data: { password: 'hunter2', note: 'a'.repeat(50) } }),
+      Date.now(),
+      {},
+      { maxBodyLength: 30, redaction: { jsonPaths: ['password'] } }
+    );
+
+    expect(record.request.body as string).toContain('"password":"[REDACTED]"');
+    expect(record.request.body as string).not.toContain('hunter2');
+  });
+
+  it('should record errors', () => {
+    const record = createExchangeRecord(createRequest(), Date.now(), {
+      error: new Error('ECONNREFUSED'),
+    });
+
+    expect(record.response).toBeUndefined();
+    expect(record.error).toBe('ECONNREFUSED');
+  });
+});
+
+describe('attachExchange', () => {
+  it('should do nothing when disabled', async () => {
+    const testInfo = createMockTestInfo();
+
+    await attachExchange({ attachToTestInfo: false }, createRequest(), Date.now(), {});
+
+    expect(testInfo.attach).not.toHaveBeenCalled();
+  });
+
+  it('should attach a JSON record to the given test', async () => {
+    const testInfo = createMockTestInfo();
+
+    await attachExchange({ attachToTestInfo: { testInfo } }, createRequest(), Date.now(), {
+      response: { status: 200, statusText: 'OK', headers: {}, body: 'ok' },
+    });
+
+    expect(testInfo.attach).toHaveBeenCalledTimes(1);
+    const [name, attachment] = (testInfo.attach as ReturnType<typeof mock>).mock.calls[0] as [
+      string,
+      { body: string; contentType: string },
+    ];
+    expect(name).toBe('POST https://api.example.com/users → 200');
+    expect(attachment.contentType).toBe('application/json');
+    expect(JSON.parse(attachment.body).response.body).toBe('ok');
+  });
+
+  it('should not throw when attaching fails', async () => {
+    const testInfo = {
+      attach: mock(async () => {
+        throw new Error('test has finished');
+      }),
+    } as unknown as TestInfo;
+
+    await attachExchange({ attachToTestInfo: { testInfo } }, createRequest(), Date.now(), { error: 'boom' });
+
+    expect(testInfo.attach).toHaveBeenCalled();
+  });
+});
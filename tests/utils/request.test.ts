@@ -1,9 +1,10 @@
 import { describe, expect, it } from 'bun:test';
-import { AxiosHeaders, type InternalAxiosRequestConfig } from 'axios';
+import axios, { AxiosHeaders, type InternalAxiosRequestConfig } from 'axios';
 import {
   buildUrl,
+  describeRequest,
+  getRequestUrl,
   transformHeaders,
-  transformParams,
   transformData,
   transformRequest,
 } from '../../src/utils/request';
@@ -121,6 +122,18 @@ describe('transformHeaders', () => {
     expect(result['Authorization']).toBe('Bearer token');
   });
 
+  it('should replace Authorization with Basic credentials from auth', () => {
+    const headers = new AxiosHeaders();
+    headers.set('authorization', 'Bearer token');
+
+    const config = createConfig({ headers, auth: { username: 'user', password: 'pässword' } });
+    const result = transformHeaders(config);
+
+    expect(result).toEqual({
+      Authorization: `Basic ${Buffer.from('user:pässword').toString('base64')}`,
+    });
+  });
+
   it('should filter out undefined and null values', () => {
     const headers = new AxiosHeaders();
     headers.set('Content-Type', 'application/json');
@@ -158,137 +171,93 @@ describe('transformHeaders', () => {
   });
 });
 
-describe('transformParams', () => {
-  it('should return undefined when no params', () => {
-    const config = createConfig({});
-    expect(transformParams(config)).toBeUndefined();
-  });
-
-  it('should transform plain object params', () => {
-    const config = createConfig({
-      params: { page: 1, limit: 10, active: true },
-    });
-    const result = transformParams(config);
-
-    expect(result).toEqual({ page: 1, limit: 10, active: true });
-  });
-
-  it('should convert string values', () => {
-    const config = createConfig({
-      params: { search: 'hello' },
-    });
-    const result = transformParams(config);
-
-    expect(result).toEqual({ search: 'hello' });
+describe('buildUrl params', () => {
+  it('should leave the URL alone without params', () => {
+    expect(buildUrl(createConfig({ url: '/users', params: {} }))).toBe('/users');
   });
 
-  it('should preserve boolean values', () => {
+  it('should serialize plain params', () => {
     const config = createConfig({
-      params: { active: true, deleted: false },
-    });
-    const result = transformParams(config);
-
-    expect(result?.active).toBe(true);
-    expect(result?.deleted).toBe(false);
-  });
-
-  it('should preserve number values', () => {
-    const config = createConfig({
-      params: { page: 1, limit: 10.5 },
+      url: '/users',
+      params: { page: 1, active: true, search: 'john doe', empty: undefined, nullVal: null },
     });
-    const result = transformParams(config);
-
-    expect(result?.page).toBe(1);
-    expect(result?.limit).toBe(10.5);
-  });
-
-  it('should transform URLSearchParams', () => {
-    const params = new URLSearchParams();
-    params.set('page', '1');
-    params.set('search', 'hello');
-
-    const config = createConfig({ params });
-    const result = transformParams(config);
-
-    expect(result).toEqual({ page: '1', search: 'hello' });
+    expect(buildUrl(config)).toBe('/users?page=1&active=true&search=john+doe');
   });
 
-  it('should filter out undefined and null values', () => {
+  it('should merge with params already in the URL and drop the hash', () => {
     const config = createConfig({
-      params: { valid: 'value', empty: undefined, nullVal: null },
+      baseURL: 'https://api.example.com',
+      url: '/users?sort=name#top',
+      params: { page: 2 },
     });
-    const result = transformParams(config);
-
-    expect(result).toEqual({ valid: 'value' });
+    expect(buildUrl(config)).toBe('https://api.example.com/users?sort=name&page=2');
   });
 
-  it('should return undefined for empty params object', () => {
-    const config = createConfig({
-      params: {},
-    });
-    const result = transformParams(config);
-
-    expect(result).toBeUndefined();
+  it('should serialize URLSearchParams with repeated keys', () => {
+    const params = new URLSearchParams([
+      ['tag', 'a'],
+      ['tag', 'b'],
+    ]);
+    expect(buildUrl(createConfig({ url: '/posts', params }))).toBe('/posts?tag=a&tag=b');
   });
 
-  it('should convert object values to strings', () => {
+  it('should match axios for arrays, nested objects and Dates', () => {
     const config = createConfig({
-      params: { data: { nested: 'value' } },
+      url: '/users',
+      params: { ids: [1, 2], filter: { role: 'admin' }, since: new Date(0) },
     });
-    const result = transformParams(config);
-
-    expect(result?.data).toBe('[object Object]');
+    expect(buildUrl(config)).toBe(axios.getUri(config));
   });
 });
 
 describe('transformData', () => {
-  it('should return empty object when no data', () => {
+  it('should return empty object when no data', async () => {
     const config = createConfig({});
-    expect(transformData(config)).toEqual({});
+    expect(await transformData(config)).toEqual({});
   });
 
-  it('should return empty object when data is null', () => {
+  it('should return empty object when data is null', async () => {
     const config = createConfig({ data: null });
-    expect(transformData(config)).toEqual({});
+    expect(await transformData(config)).toEqual({});
   });
 
-  it('should return empty object when data is undefined', () => {
+  it('should return empty object when data is undefined', async () => {
     const config = createConfig({ data: undefined });
-    expect(transformData(config)).toEqual({});
+    expect(await transformData(config)).toEqual({});
   });
 
-  it('should return data as-is for JSON content', () => {
+  it('should return data as-is for JSON content', async () => {
     const config = createConfig({
       data: { name: 'John', age: 30 },
     });
-    const result = transformData(config);
+    const result = await transformData(config);
 
     expect(result).toEqual({ data: { name: 'John', age: 30 } });
   });
 
-  it('should handle string data', () => {
+  it('should handle string data', async () => {
     const config = createConfig({
       data: 'raw string data',
     });
-    const result = transformData(config);
+    const result = await transformData(config);
 
     expect(result).toEqual({ data: 'raw string data' });
   });
 
-  it('should transform URLSearchParams to form', () => {
+  it('should transform URLSearchParams to form', async () => {
     const data = new URLSearchParams();
     data.set('username', 'john');
     data.set('password', 'secret');
 
     const config = createConfig({ data });
-    const result = transformData(config);
+    const result = await transformData(config);
 
     expect(result).toEqual({
       form: { username: 'john', password: 'secret' },
     });
   });
 
-  it('should handle form-urlencoded string data', () => {
+  it('should handle form-urlencoded string data', async () => {
     const headers = new AxiosHeaders();
     headers.set('Content-Type', 'application/x-www-form-urlencoded');
 
@@ -296,14 +265,14 @@ describe('transformData', () => {
       headers,
       data: 'username=john&password=secret',
     });
-    const result = transformData(config);
+    const result = await transformData(config);
 
     expect(result).toEqual({
       form: { username: 'john', password: 'secret' },
     });
   });
 
-  it('should handle form-urlencoded object data', () => {
+  it('should handle form-urlencoded object data', async () => {
     const headers = new AxiosHeaders();
     headers.set('Content-Type', 'application/x-www-form-urlencoded');
 
@@ -311,46 +280,94 @@ describe('transformData', () => {
       headers,
       data: { username: 'john', age: 30, active: true },
     });
-    const result = transformData(config);
+    const result = await transformData(config);
 
     expect(result).toEqual({
       form: { username: 'john', age: 30, active: true },
     });
   });
 
-  it('should handle FormData', () => {
+  it('should keep repeated form-urlencoded fields', async () => {
+    const headers = new AxiosHeaders();
+    headers.set('Content-Type', 'application/x-www-form-urlencoded');
+
+    const fromString = await transformData(createConfig({ headers, data: 'tag=a&tag=b&q=x' }));
+    const fromParams = await transformData(
+      createConfig({ data: new URLSearchParams([['tag', 'a'], ['tag', 'b']]) })
+    );
+
+    expect(fromString.form).toBeInstanceOf(FormData);
+    expect([...(fromString.form as FormData).entries()]).toEqual([
+      ['tag', 'a'],
+      ['tag', 'b'],
+      ['q', 'x'],
+    ]);
+    expect((fromParams.form as FormData).getAll('tag')).toEqual(['a', 'b']);
+  });
+
+  it('should flatten form-urlencoded objects like axios', async () => {
+    const headers = new AxiosHeaders();
+    headers.set('Content-Type', 'application/x-www-form-urlencoded');
+
+    const result = await transformData(
+      createConfig({ headers, data: { tags: ['a', 'b'], user: { name: 'john' } } })
+    );
+
+    expect([...(result.form as FormData).entries()]).toEqual([
+      ['tags[]', 'a'],
+      ['tags[]', 'b'],
+      ['user[name]', 'john'],
+    ]);
+  });
+
+  it('should handle FormData', async () => {
     const data = new FormData();
     data.set('username', 'john');
     data.set('email', 'john@example.com');
 
     const config = createConfig({ data });
-    const result = transformData(config);
+    const result = await transformData(config);
 
     expect(result.multipart).toBeDefined();
     expect((result.multipart as Record<string, unknown>)['username']).toBe('john');
     expect((result.multipart as Record<string, unknown>)['email']).toBe('john@example.com');
   });
 
-  it('should handle FormData with Blob', () => {
+  it('should handle FormData with Blob', async () => {
     const blob = new Blob(['test content'], { type: 'text/plain' });
     const data = new FormData();
     data.set('file', blob, 'test.txt');
 
     const config = createConfig({ data });
-    const result = transformData(config);
+    const result = await transformData(config);
 
     expect(result.multipart).toBeDefined();
     const fileEntry = (result.multipart as Record<string, unknown>)['file'] as {
       name: string;
       mimeType: string;
-      buffer: Blob;
+      buffer: Buffer;
     };
     expect(fileEntry.name).toBe('test.txt');
     // Blob type may include charset
     expect(fileEntry.mimeType).toContain('text/plain');
+    expect(Buffer.isBuffer(fileEntry.buffer)).toBe(true);
+    expect(fileEntry.buffer.toString()).toBe('test content');
   });
 
-  it('should handle multipart/form-data content type with object', () => {
+  it('should keep repeated FormData fields', async () => {
+    const data = new FormData();
+    data.append('files[]', new Blob(['a']), 'a.txt');
+    data.append('files[]', new Blob(['b']), 'b.txt');
+
+    const result = await transformData(createConfig({ data }));
+
+    expect(result.multipart).toBeInstanceOf(FormData);
+    const files = (result.multipart as FormData).getAll('files[]') as File[];
+    expect(files.map((file) => file.name)).toEqual(['a.txt', 'b.txt']);
+    expect(await files[1].text()).toBe('b');
+  });
+
+  it('should handle multipart/form-data content type with object', async () => {
     const headers = new AxiosHeaders();
     headers.set('Content-Type', 'multipart/form-data');
 
@@ -358,14 +375,14 @@ describe('transformData', () => {
       headers,
       data: { field1: 'value1', field2: 'value2' },
     });
-    const result = transformData(config);
+    const result = await transformData(config);
 
     expect(result).toEqual({
       multipart: { field1: 'value1', field2: 'value2' },
     });
   });
 
-  it('should filter undefined and null in form-urlencoded', () => {
+  it('should filter undefined and null in form-urlencoded', async () => {
     const headers = new AxiosHeaders();
     headers.set('Content-Type', 'application/x-www-form-urlencoded');
 
@@ -373,113 +390,113 @@ describe('transformData', () => {
       headers,
       data: { valid: 'value', empty: undefined, nullVal: null },
     });
-    const result = transformData(config);
+    const result = await transformData(config);
 
     expect(result).toEqual({ form: { valid: 'value' } });
   });
 });
 
 describe('transformRequest', () => {
-  it('should set default method to GET', () => {
+  it('should set default method to GET', async () => {
     const config = createConfig({ url: '/users' });
-    const result = transformRequest(config);
+    const result = await transformRequest(config);
 
     expect(result.method).toBe('GET');
   });
 
-  it('should uppercase the method', () => {
+  it('should uppercase the method', async () => {
     const config = createConfig({ url: '/users', method: 'post' });
-    const result = transformRequest(config);
+    const result = await transformRequest(config);
 
     expect(result.method).toBe('POST');
   });
 
-  it('should include transformed headers', () => {
+  it('should include transformed headers', async () => {
     const headers = new AxiosHeaders();
     headers.set('Authorization', 'Bearer token');
 
     const config = createConfig({ url: '/users', headers });
-    const result = transformRequest(config);
+    const result = await transformRequest(config);
 
     expect(result.headers?.['Authorization']).toBe('Bearer token');
   });
 
-  it('should include transformed params', () => {
+  it('should leave params to buildUrl', async () => {
     const config = createConfig({
       url: '/users',
       params: { page: 1 },
     });
-    const result = transformRequest(config);
+    const result = await transformRequest(config);
 
-    expect(result.params).toEqual({ page: 1 });
+    expect(result.params).toBeUndefined();
   });
 
-  it('should include transformed data', () => {
+  it('should include transformed data', async () => {
     const config = createConfig({
       url: '/users',
       method: 'POST',
       data: { name: 'John' },
     });
-    const result = transformRequest(config);
+    const result = await transformRequest(config);
 
     expect(result.data).toEqual({ name: 'John' });
   });
 
-  it('should include timeout when > 0', () => {
+  it('should include timeout when > 0', async () => {
     const config = createConfig({
       url: '/users',
       timeout: 5000,
     });
-    const result = transformRequest(config);
+    const result = await transformRequest(config);
 
     expect(result.timeout).toBe(5000);
   });
 
-  it('should not include timeout when 0', () => {
+  it('should not include timeout when 0', async () => {
     const config = createConfig({
       url: '/users',
       timeout: 0,
     });
-    const result = transformRequest(config);
+    const result = await transformRequest(config);
 
     expect(result.timeout).toBeUndefined();
   });
 
-  it('should apply adapter options failOnStatusCode', () => {
+  it('should apply adapter options failOnStatusCode', async () => {
     const config = createConfig({ url: '/users' });
-    const result = transformRequest(config, { failOnStatusCode: true });
+    const result = await transformRequest(config, { failOnStatusCode: true });
 
     expect(result.failOnStatusCode).toBe(true);
   });
 
-  it('should apply adapter options ignoreHTTPSErrors', () => {
+  it('should apply adapter options ignoreHTTPSErrors', async () => {
     const config = createConfig({ url: '/users' });
-    const result = transformRequest(config, { ignoreHTTPSErrors: true });
+    const result = await transformRequest(config, { ignoreHTTPSErrors: true });
 
     expect(result.ignoreHTTPSErrors).toBe(true);
   });
 
-  it('should apply adapter options maxRedirects over config', () => {
+  it('should apply adapter options maxRedirects over config', async () => {
     const config = createConfig({
       url: '/users',
       maxRedirects: 5,
     });
-    const result = transformRequest(config, { maxRedirects: 10 });
+    const result = await transformRequest(config, { maxRedirects: 10 });
 
     expect(result.maxRedirects).toBe(10);
   });
 
-  it('should use config maxRedirects when adapter option not set', () => {
+  it('should use config maxRedirects when adapter option not set', async () => {
     const config = createConfig({
       url: '/users',
       maxRedirects: 5,
     });
-    const result = transformRequest(config);
+    const result = await transformRequest(config);
 
     expect(result.maxRedirects).toBe(5);
   });
 
-  it('should handle complete request transformation', () => {
+  it('should handle complete request transformation', async () => {
     const headers = new AxiosHeaders();
     headers.set('Content-Type', 'application/json');
     headers.set('Authorization', 'Bearer token');
@@ -494,17 +511,57 @@ describe('transformRequest', () => {
       maxRedirects: 3,
     });
 
-    const result = transformRequest(config, {
+    const result = await transformRequest(config, {
       ignoreHTTPSErrors: true,
     });
 
     expect(result.method).toBe('POST');
     expect(result.headers?.['Content-Type']).toBe('application/json');
     expect(result.headers?.['Authorization']).toBe('Bearer token');
-    expect(result.params).toEqual({ include: 'profile' });
     expect(result.data).toEqual({ name: 'John', email: 'john@example.com' });
     expect(result.timeout).toBe(10000);
     expect(result.maxRedirects).toBe(3);
     expect(result.ignoreHTTPSErrors).toBe(true);
   });
 });
+
+describe('getRequestUrl', () => {
+  it('should merge params into the query string', () => {
+    const request = {
+      url: 'https://api.example.com/users?active=1',
+      options: { params: { page: 2, q: 'a b' } },
+    };
+    expect(getRequestUrl(request)).toBe('https://api.example.com/users?active=1&page=2&q=a+b');
+  });
+
+  it('should return the URL as-is without params', () => {
+    expect(getRequestUrl({ url: '/users', options: {} })).toBe('/users');
+  });
+});
+
+describe('describeRequest', () => {
+  it('should describe method, final URL, headers and timeout', () => {
+    const headers = { Authorization: 'Bearer token' };
+
+    const result = describeRequest({
+      url: 'https://api.example.com/users',
+      options: { method: 'POST', headers, params: { page: 1 }, data: '{}', timeout: 500 },
+    });
+
+    expect(result).toEqual({
+      method: 'POST',
+      url: 'https://api.example.com/users?page=1',
+      headers: { Authorization: 'Bearer token' },
+      timeout: 500,
+    });
+    expect(result.headers).not.toBe(headers);
+  });
+
+  it('should default to GET without headers', () => {
+    expect(describeRequest({ url: '/users', options: {} })).toEqual({
+      method: 'GET',
+      url: '/users',
+      headers: {},
+    });
+  });
+});
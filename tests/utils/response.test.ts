@@ -1,7 +1,10 @@
 import { describe, expect, it, mock } from 'bun:test';
-import { AxiosHeaders, type InternalAxiosRequestConfig } from 'axios';
+import { AxiosError, AxiosHeaders, type InternalAxiosRequestConfig } from 'axios';
 import type { APIResponse } from '@playwright/test';
+import { Readable } from 'node:stream';
 import {
+  decodeResponseBody,
+  isJSONContentType,
   transformResponseHeaders,
   parseResponseBody,
   transformResponse,
@@ -29,8 +32,8 @@ function createMockResponse(options: {
     status = 200,
     statusText = 'OK',
     headers = {},
-    body = Buffer.from(''),
     json,
+    body = Buffer.from(json === undefined ? '' : JSON.stringify(json)),
   } = options;
 
   return {
@@ -55,34 +58,76 @@ function createMockResponse(options: {
 }
 
 describe('transformResponseHeaders', () => {
-  it('should pass through headers as-is', () => {
-    const headers = {
+  it('should build an AxiosHeaders instance with lower-cased names', () => {
+    const result = transformResponseHeaders([
+      { name: 'Content-Type', value: 'application/json' },
+      { name: 'X-Request-Id', value: '12345' },
+    ]);
+
+    expect(result).toBeInstanceOf(AxiosHeaders);
+    expect(result.toJSON()).toEqual({
       'content-type': 'application/json',
       'x-request-id': '12345',
-    };
+    });
+    expect(result.get('X-Request-ID')).toBe('12345');
+    expect(result.has('content-type')).toBe(true);
+  });
 
-    const result = transformResponseHeaders(headers);
+  it('should handle empty headers', () => {
+    const result = transformResponseHeaders([]);
+    expect(result.toJSON()).toEqual({});
+  });
 
-    expect(result).toEqual(headers);
+  it('should keep set-cookie as an array and join other repeated headers', () => {
+    const result = transformResponseHeaders([
+      { name: 'Set-Cookie', value: 'session=abc123; Path=/; HttpOnly' },
+      { name: 'set-cookie', value: 'theme=dark; Path=/' },
+      { name: 'Cache-Control', value: 'no-cache' },
+      { name: 'cache-control', value: 'no-store' },
+    ]);
+
+    expect(result['set-cookie']).toEqual(['session=abc123; Path=/; HttpOnly', 'theme=dark; Path=/']);
+    expect(result['cache-control']).toBe('no-cache, no-store');
   });
 
-  it('should handle empty headers', () => {
-    const result = transformResponseHeaders({});
-    expect(result).toEqual({});
+  it('should return set-cookie as an array for a single cookie', () => {
+    const result = transformResponseHeaders([{ name: 'Set-Cookie', value: 'session=abc123' }]);
+
+    expect(result['set-cookie']).toEqual(['session=abc123']);
   });
+});
 
-  it('should preserve all header values', () => {
-    const headers = {
-      'content-type': 'application/json; charset=utf-8',
-      'cache-control': 'no-cache, no-store',
-      'set-cookie': 'session=abc123; Path=/; HttpOnly',
-    };
+describe('isJSONContentType', () => {
+  it('should match JSON media types with or without suffixes and parameters', () => {
+    expect(isJSONContentType('application/json')).toBe(true);
+    expect(isJSONContentType('application/json; charset=utf-8')).toBe(true);
+    expect(isJSONContentType('application/problem+json')).toBe(true);
+    expect(isJSONContentType('application/vnd.api+json')).toBe(true);
+  });
+
+  it('should not match other media types', () => {
+    expect(isJSONContentType('text/plain')).toBe(false);
+    expect(isJSONContentType('application/jsonl')).toBe(false);
+    expect(isJSONContentType('application/x-ndjson')).toBe(false);
+    expect(isJSONContentType('')).toBe(false);
+  });
+});
 
-    const result = transformResponseHeaders(headers);
+describe('decodeResponseBody', () => {
+  it('should decode utf8 and strip the BOM', () => {
+    expect(decodeResponseBody(Buffer.from('\uFEFF{"a":1}'))).toBe('{"a":1}');
+  });
 
-    expect(result['content-type']).toBe('application/json; charset=utf-8');
-    expect(result['cache-control']).toBe('no-cache, no-store');
-    expect(result['set-cookie']).toBe('session=abc123; Path=/; HttpOnly');
+  it('should keep the BOM for other encodings', () => {
+    const body = Buffer.from('\uFEFFhi', 'utf16le');
+
+    expect(decodeResponseBody(body, 'utf16le')).toBe('\uFEFFhi');
+  });
+
+  it('should decode encodings Buffer does not support', () => {
+    const body = Buffer.from([0x00, 0x68, 0x00, 0x69]);
+
+    expect(decodeResponseBody(body, 'utf-16be')).toBe('hi');
   });
 });
 
@@ -152,6 +197,107 @@ describe('parseResponseBody', () => {
     });
   });
 
+  describe('JSON parsing options', () => {
+    it('should parse structured syntax suffix media types', async () => {
+      for (const contentType of [
+        'application/problem+json',
+        'application/vnd.api+json; charset=utf-8',
+      ]) {
+        const response = createMockResponse({
+          headers: { 'content-type': contentType },
+          body: '{"title":"Not Found"}',
+        });
+
+        const result = await parseResponseBody(response, createConfig({}));
+
+        expect(result).toEqual({ title: 'Not Found' });
+      }
+    });
+
+    it('should parse any content type when responseType is json', async () => {
+      const response = createMockResponse({
+        headers: { 'content-type': 'text/plain' },
+        body: '[1,2]',
+      });
+
+      const result = await parseResponseBody(response, createConfig({ responseType: 'json' }));
+
+      expect(result).toEqual([1, 2]);
+    });
+
+    it('should return text when forcedJSONParsing is off', async () => {
+      const response = createMockResponse({
+        headers: { 'content-type': 'application/json' },
+        body: '{"a":1}',
+      });
+      const config = createConfig({ transitional: { forcedJSONParsing: false } });
+
+      const result = await parseResponseBody(response, config);
+
+      expect(result).toBe('{"a":1}');
+    });
+
+    it('should throw ERR_BAD_RESPONSE when strict parsing fails', async () => {
+      const response = createMockResponse({
+        headers: { 'content-type': 'application/json' },
+        body: '{invalid',
+      });
+      const config = createConfig({
+        responseType: 'json',
+        transitional: { silentJSONParsing: false },
+      });
+
+      try {
+        await parseResponseBody(response, config);
+        expect(true).toBe(false); // Should not reach here
+      } catch (error) {
+        expect(error).toBeInstanceOf(AxiosError);
+        expect((error as AxiosError).code).toBe(AxiosError.ERR_BAD_RESPONSE);
+        expect((error as AxiosError).cause).toBeInstanceOf(SyntaxError);
+      }
+    });
+
+    it('should fall back to text when silent parsing is off but JSON was not requested', async () => {
+      const response = createMockResponse({
+        headers: { 'content-type': 'application/json' },
+        body: '{invalid',
+      });
+      const config = createConfig({ transitional: { silentJSONParsing: false } });
+
+      const result = await parseResponseBody(response, config);
+
+      expect(result).toBe('{invalid');
+    });
+
+    it('should decode with responseEncoding', async () => {
+      const response = createMockResponse({
+        headers: { 'content-type': 'text/plain; charset=iso-8859-1' },
+        body: Buffer.from([0x63, 0x61, 0x66, 0xe9]),
+      });
+
+      const config = createConfig({ responseEncoding: 'latin1' });
+
+      const result = await parseResponseBody(response, config);
+
+      expect(result).toBe('café');
+    });
+  });
+
+  describe('responseType: document', () => {
+    it('should return the markup as text', async () => {
+      const response = createMockResponse({
+        headers: { 'content-type': 'application/json' },
+        body: '{"not":"parsed"}',
+      });
+
+      const config = createConfig({ responseType: 'document' });
+
+      const result = await parseResponseBody(response, config);
+
+      expect(result).toBe('{"not":"parsed"}');
+    });
+  });
+
   describe('responseType: text', () => {
     it('should return text response', async () => {
       const response = createMockResponse({
@@ -222,7 +368,7 @@ describe('parseResponseBody', () => {
   });
 
   describe('responseType: stream', () => {
-    it('should return Buffer for stream type', async () => {
+    it('should return a Node Readable for stream type', async () => {
       const bodyBuffer = Buffer.from('streaming data');
       const response = createMockResponse({
         headers: { 'content-type': 'application/octet-stream' },
@@ -232,7 +378,25 @@ describe('parseResponseBody', () => {
 
       const result = await parseResponseBody(response, config);
 
-      expect(Buffer.isBuffer(result)).toBe(true);
+      expect(result).toBeInstanceOf(Readable);
+      expect(typeof (result as Readable).pipe).toBe('function');
+    });
+
+    it('should yield the full body when iterated', async () => {
+      const lines = '{"id":1}\n{"id":2}\n';
+      const response = createMockResponse({
+        headers: { 'content-type': 'application/x-ndjson' },
+        body: lines,
+      });
+      const config = createConfig({ responseType: 'stream' });
+
+      const result = (await parseResponseBody(response, config)) as Readable;
+      const chunks: Buffer[] = [];
+      for await (const chunk of result) {
+        chunks.push(chunk as Buffer);
+      }
+
+      expect(Buffer.concat(chunks).toString()).toBe(lines);
     });
   });
 });
@@ -246,15 +410,16 @@ describe('transformResponse', () => {
       json: { message: 'success' },
     });
     const config = createConfig({ url: '/test', method: 'GET' });
+    const request = { method: 'GET', url: '/test', headers: {} };
 
-    const result = await transformResponse(response, config);
+    const result = await transformResponse(response, config, request);
 
     expect(result.status).toBe(200);
     expect(result.statusText).toBe('OK');
     expect(result.data).toEqual({ message: 'success' });
     expect(result.headers['content-type']).toBe('application/json');
     expect(result.config).toBe(config);
-    expect(result.request).toBe(response);
+    expect(result.request).toBe(request);
   });
 
   it('should use mapped status text when not provided', async () => {
@@ -0,0 +1,240 @@
+import { describe, expect, it, mock } from 'bun:test';
+import type { APIResponse } from '@playwright/test';
+import {
+  getBackoffDelay,
+  isRetryableRequest,
+  parseRetryAfter,
+  resolveRetryOptions,
+  retryRequest,
+} from '../../src/utils/retry';
+import { createAPIResponse } from '../../src/utils/api-response';
+import type { PlaywrightRequest, RetryContext } from '../../src/types';
+
+function createRequest(
+  method = 'GET',
+  headers: Record<string, string> = {}
+): PlaywrightRequest {
+  return { url: 'https://api.example.com/users', options: { method, headers } };
+}
+
+function createResponse(status: number, headers: Record<string, string> = {}): APIResponse {
+  return createAPIResponse({
+    url: 'https://api.example.com/users',
+    status,
+    headers: Object.entries(headers).map(([name, value]) => ({ name, value })),
+  });
+}
+
+/**
+ * Sender answering with the given statuses (or errors) in order
+ */
+function createSender(...outcomes: Array<number | Error>) {
+  let index = 0;
+  return mock(async () => {
+    const outcome = outcomes[Math.min(index++, outcomes.length - 1)];
+    if (outcome instanceof Error) throw outcome;
+    return createResponse(outcome);
+  });
+}
+
+const noDelay = { baseDelay: 0, jitter: false };
+
+describe('resolveRetryOptions', () => {
+  it('should be off without a policy or with zero retries', () => {
+    expect(resolveRetryOptions(undefined)).toBeUndefined();
+    expect(resolveRetryOptions(0)).toBeUndefined();
+    expect(resolveRetryOptions({ retries: 0 })).toBeUndefined();
+  });
+
+  it('should fill in defaults', () => {
+    const options = resolveRetryOptions(2);
+
+    expect(options?.retries).toBe(2);
+    expect(options?.statusCodes).toEqual([408, 429, 500, 502, 503, 504]);
+    expect(options?.methods).toContain('PUT');
+    expect(options?.methods).not.toContain('POST');
+    expect(options?.jitter).toBe(true);
+  });
+
+  it('should default retries when a policy object is given', () => {
+    expect(resolveRetryOptions({ statusCodes: [503] })?.retries).toBe(3);
+  });
+});
+
+describe('isRetryableRequest', () => {
+  const options = { methods: ['GET'], idempotencyKeyHeader: 'idempotency-key' as const };
+
+  it('should retry listed methods', () => {
+    expect(isRetryableRequest(createRequest('get'), options)).toBe(true);
+    expect(isRetryableRequest(createRequest('POST'), options)).toBe(false);
+  });
+
+  it('should retry any method carrying an idempotency key', () => {
+    const request = createRequest('POST', { 'Idempotency-Key': 'abc' });
+
+    expect(isRetryableRequest(request, options)).toBe(true);
+    expect(isRetryableRequest(request, { ...options, idempotencyKeyHeader: false })).toBe(false);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('should parse delays in seconds', () => {
+    expect(parseRetryAfter('2')).toBe(2000);
+    expect(parseRetryAfter('0.5')).toBe(500);
+  });
+
+  it('should parse HTTP dates relative to now', () => {
+    const now = Date.parse('Wed, 21 Oct 2015 07:28:00 GMT');
+
+    expect(parseRetryAfter('Wed, 21 Oct 2015 07:28:03 GMT', now)).toBe(3000);
+    expect(parseRetryAfter('Wed, 21 Oct 2015 07:27:00 GMT', now)).toBe(0);
+  });
+
+  it('should ignore missing or invalid values', () => {
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('getBackoffDelay', () => {
+  it('should double the delay up to maxDelay', () => {
+    const options = { baseDelay: 100, maxDelay: 500, jitter: false };
+
+    expect([1, 2, 3, 4].map((attempt) => getBackoffDelay(attempt, options))).toEqual([
+      100, 200, 400, 500,
+    ]);
+  });
+
+  it('should stay between 0 and the computed delay with jitter', () => {
+    const options = { baseDelay: 100, maxDelay: 1000, jitter: true };
+
+    for (let i = 0; i < 20; i++) {
+      const delay = getBackoffDelay(2, options);
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThanOrEqual(200);
+    }
+  });
+});
+
+describe('retryRequest', () => {
+  it('should send once without a policy', async () => {
+    const send = createSender(503);
+
+    const response = await retryRequest(send, createRequest(), undefined);
+
+    expect(response.status()).toBe(503);
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry retryable statuses until success', async () => {
+    const send = createSender(503, 429, 200);
+
+    const response = await retryRequest(send, createRequest(), { retries: 3, ...noDelay });
+
+    expect(response.status()).toBe(200);
+    expect(send).toHaveBeenCalledTimes(3);
+  });
+
+  it('should return the last response once retries are exhausted', async () => {
+    const send = createSender(503);
+
+    const response = await retryRequest(send, createRequest(), { retries: 2, ...noDelay });
+
+    expect(response.status()).toBe(503);
+    expect(send).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry other statuses or methods', async () => {
+    const notFound = createSender(404);
+    const post = createSender(503);
+
+    await retryRequest(notFound, createRequest(), { retries: 2, ...noDelay });
+    await retryRequest(post, createRequest('POST'), { retries: 2, ...noDelay });
+
+    expect(notFound).toHaveBeenCalledTimes(1);
+    expect(post).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry network errors and rethrow the last one', async () => {
+    const send = createSender(new Error('ECONNRESET'), new Error('ECONNREFUSED'));
+
+    await expect(retryRequest(send, createRequest(), { retries: 1, ...noDelay })).rejects.toThrow(
+      'ECONNREFUSED'
+    );
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry network errors when disabled', async () => {
+    const send = createSender(new Error('ECONNRESET'), 200);
+
+    await expect(
+      retryRequest(send, createRequest(), { retries: 1, retryOnNetworkError: false, ...noDelay })
+    ).rejects.toThrow('ECONNRESET');
+  });
+
+  it('should dispose retried responses and report each retry', async () => {
+    const first = createResponse(503, { 'retry-after': '0' });
+    const send = mock(async () => (send.mock.calls.length === 1 ? first : createResponse(200)));
+    const contexts: RetryContext[] = [];
+
+    await retryRequest(send, createRequest(), {
+      retries: 1,
+      baseDelay: 1000,
+      onRetry: (context) => {
+        contexts.push(context);
+      },
+    });
+
+    expect(contexts).toHaveLength(1);
+    expect(contexts[0].attempt).toBe(1);
+    expect(contexts[0].delay).toBe(0);
+    expect(contexts[0].response).toBe(first);
+    await expect(first.body()).rejects.toThrow('disposed');
+  });
+
+  it('should cap Retry-After at maxDelay', async () => {
+    const send = mock(async () =>
+      send.mock.calls.length === 1 ? createResponse(429, { 'retry-after': '120' }) : createResponse(200)
+    );
+    const delays: number[] = [];
+
+    await retryRequest(send, createRequest(), {
+      retries: 1,
+      maxDelay: 5,
+      onRetry: ({ delay }) => {
+        delays.push(delay);
+      },
+    });
+
+    expect(delays).toEqual([5]);
+  });
+
+  it('should give up when the next attempt would exceed maxElapsedTime', async () => {
+    const send = createSender(503);
+
+    const response = await retryRequest(send, createRequest(), {
+      retries: 5,
+      baseDelay: 1000,
+      jitter: false,
+      maxElapsedTime: 500,
+    });
+
+    expect(response.status()).toBe(503);
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop waiting when the request is canceled', async () => {
+    const send = createSender(503);
+    const reason = new Error('canceled');
+
+    const policy = { retries: 1, baseDelay: 10000, jitter: false };
+
+    const pending = retryRequest(send, createRequest(), policy, (cancel) => {
+      const timer = setTimeout(() => cancel(reason), 10);
+      return () => clearTimeout(timer);
+    });
+
+    await expect(pending).rejects.toBe(reason);
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+});
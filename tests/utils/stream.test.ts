@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'bun:test';
+import { Readable } from 'node:stream';
+import {
+  STREAM_CHUNK_SIZE,
+  bufferToReadable,
+  bufferToReadableStream,
+} from '../../src/utils/stream';
+
+describe('bufferToReadable', () => {
+  it('should return a Node Readable', () => {
+    expect(bufferToReadable(Buffer.from('data'))).toBeInstanceOf(Readable);
+  });
+
+  it('should split large bodies into chunks', async () => {
+    const buffer = Buffer.alloc(STREAM_CHUNK_SIZE * 2 + 10, 1);
+    const chunks: Buffer[] = [];
+
+    for await (const chunk of bufferToReadable(buffer)) {
+      chunks.push(chunk as Buffer);
+    }
+
+    expect(chunks.length).toBe(3);
+    expect(Buffer.concat(chunks).equals(buffer)).toBe(true);
+  });
+
+  it('should end immediately for an empty body', async () => {
+    const chunks: Buffer[] = [];
+
+    for await (const chunk of bufferToReadable(Buffer.alloc(0))) {
+      chunks.push(chunk as Buffer);
+    }
+
+    expect(chunks.length).toBe(0);
+  });
+});
+
+describe('bufferToReadableStream', () => {
+  it('should return a web ReadableStream', () => {
+    expect(bufferToReadableStream(Buffer.from('data'))).toBeInstanceOf(ReadableStream);
+  });
+
+  it('should yield the full body', async () => {
+    const buffer = Buffer.alloc(STREAM_CHUNK_SIZE + 1, 2);
+    const body = await new Response(bufferToReadableStream(buffer)).arrayBuffer();
+
+    expect(Buffer.from(body).equals(buffer)).toBe(true);
+  });
+});
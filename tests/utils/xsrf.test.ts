@@ -0,0 +1,146 @@
+import { describe, expect, it, mock } from 'bun:test';
+import axios from 'axios';
+import type { APIRequestContext } from '@playwright/test';
+import { createPlaywrightAdapter } from '../../src/axios-adapter';
+import { createCookieJar } from '../../src/cookie-jar';
+import { createMockPlaywrightContext } from '../../src/mock';
+import type { PlaywrightCookie } from '../../src/types';
+import { isSameOrigin } from '../../src/utils/xsrf';
+
+function createCookie(overrides: Partial<PlaywrightCookie> = {}): PlaywrightCookie {
+  return {
+    name: 'XSRF-TOKEN',
+    value: 'abc%3D%3D',
+    domain: 'app.example.com',
+    path: '/',
+    expires: -1,
+    httpOnly: false,
+    secure: false,
+    sameSite: 'Lax',
+    ...overrides,
+  };
+}
+
+/**
+ * Mock context whose storage state holds `cookies`
+ */
+function createContext(cookies: PlaywrightCookie[]) {
+  const mock = createMockPlaywrightContext([{ method: 'POST', path: '/*', body: 'ok' }]);
+  return Object.assign(mock, {
+    storageState: async () => ({ cookies, origins: [] }),
+  }) as APIRequestContext & typeof mock;
+}
+
+describe('isSameOrigin', () => {
+  it('should treat relative URLs as same-origin', () => {
+    expect(isSameOrigin('/api/users', undefined)).toBe(true);
+  });
+
+  it('should compare absolute URLs with the origin of baseURL', () => {
+    const baseURL = 'https://app.example.com/api';
+
+    expect(isSameOrigin('https://app.example.com/other', baseURL)).toBe(true);
+    expect(isSameOrigin('https://evil.example.com/other', baseURL)).toBe(false);
+    expect(isSameOrigin('http://app.example.com/other', baseURL)).toBe(false);
+    expect(isSameOrigin('https://app.example.com/other', undefined)).toBe(false);
+  });
+});
+
+describe('XSRF token', () => {
+  it('should send the decoded XSRF-TOKEN cookie as X-XSRF-TOKEN', async () => {
+    const context = createContext([createCookie()]);
+    const client = axios.create({
+      adapter: createPlaywrightAdapter(context),
+      baseURL: 'https://app.example.com',
+    });
+
+    await client.post('/users', {});
+
+    expect(context.requests[0].options.headers?.['X-XSRF-TOKEN']).toBe('abc==');
+  });
+
+  it('should use the configured cookie and header names', async () => {
+    const context = createContext([createCookie({ name: 'csrftoken', value: 'django' })]);
+    const client = axios.create({
+      adapter: createPlaywrightAdapter(context),
+      xsrfCookieName: 'csrftoken',
+      xsrfHeaderName: 'X-CSRFToken',
+    });
+
+    await client.post('/users', {}, { headers: { 'x-csrftoken': 'stale' } });
+
+    const headers = context.requests[0].options.headers ?? {};
+    expect(headers['X-CSRFToken']).toBe('django');
+    expect(headers['x-csrftoken']).toBeUndefined();
+  });
+
+  it('should only send the token cross-origin with withXSRFToken', async () => {
+    const context = createContext([createCookie({ domain: '.example.com' })]);
+    const client = axios.create({
+      adapter: createPlaywrightAdapter(context),
+      baseURL: 'https://app.example.com',
+    });
+
+    await client.post('https://api.example.com/users', {});
+    await client.post('https://api.example.com/users', {}, { withXSRFToken: true });
+    await client.post('https://api.example.com/users', {}, { withXSRFToken: () => true });
+
+    expect(context.requests.map(({ options }) => options.headers?.['X-XSRF-TOKEN'])).toEqual([
+      undefined,
+      'abc==',
+      'abc==',
+    ]);
+  });
+
+  it('should not send the token with withXSRFToken false', async () => {
+    const context = createContext([createCookie()]);
+    const client = axios.create({ adapter: createPlaywrightAdapter(context) });
+
+    await client.post('/users', {}, { withXSRFToken: false });
+
+    expect(context.requests[0].options.headers?.['X-XSRF-TOKEN']).toBeUndefined();
+  });
+
+  it('should only read cookies matching an absolute URL', async () => {
+    const context = createContext([createCookie({ domain: 'other.example.com' })]);
+    const client = axios.create({
+      adapter: createPlaywrightAdapter(context),
+      baseURL: 'https://app.example.com',
+    });
+
+    await client.post('/users', {});
+
+    expect(context.requests[0].options.headers?.['X-XSRF-TOKEN']).toBeUndefined();
+  });
+
+  it('should prefer the cookie jar over the request context', async () => {
+    const context = createContext([createCookie({ value: 'context' })]);
+    const cookieJar = createCookieJar({ cookies: [createCookie({ value: 'jar' })] });
+    const client = axios.create({
+      adapter: createPlaywrightAdapter(context, { cookieJar }),
+      baseURL: 'https://app.example.com',
+    });
+
+    await client.post('/users', {});
+
+    expect(context.requests[0].options.headers?.['X-XSRF-TOKEN']).toBe('jar');
+  });
+
+  it('should share one storage state read with the cookie jar', async () => {
+    const context = createContext([createCookie()]);
+    const storageState = mock(context.storageState);
+    context.storageState = storageState;
+    const client = axios.create({
+      adapter: createPlaywrightAdapter(context, { cookieJar: createCookieJar() }),
+      baseURL: 'https://app.example.com',
+    });
+
+    await client.post('https://app.example.com/users', {});
+
+    const { headers } = context.requests[0].options;
+    expect(headers?.['X-XSRF-TOKEN']).toBe('abc==');
+    expect(headers?.cookie).toBe('XSRF-TOKEN=abc%3D%3D');
+    // One read before sending, one to sync the jar afterwards
+    expect(storageState).toHaveBeenCalledTimes(2);
+  });
+});